@@ -1,8 +1,19 @@
-import React, { useState, useRef, useEffect } from 'react';
-import MapComponent, { MapComponentRef } from './components/MapComponent';
-import { projectFromZone, fetchLocationName, searchPlaces, SearchResult } from './services/geoService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import MapComponent, { MapComponentRef, ExportGrid, VectorFeatureInfo, VECTOR_STYLES } from './components/MapComponent';
+import { projectFromZone, fetchLocationName, searchPlaces, SearchResult, getPrjWKT, getZoneResolutionFromScale, getGridInterval, formatArea, detectGeoJSONZone, hasLonLatCoordinates } from './services/geoService';
+import { createWorldFile } from './services/exportService';
+import { createGeoTiffWriter, encodeGeoTIFF, TiffCompression } from './services/tiffService';
+import { createShapefile, DbfField, ShapeRecord, ShapeType } from './services/shapefileService';
+import { createProjectDXF, DxfLayer } from './services/dxfService';
+import { createProjectKML, KmlFeature, KmlFolder } from './services/kmlService';
+import { createGPX } from './services/gpxService';
+import { detectDroppedFiles, createImportResult, ImportFormat, ImportResult } from './services/importService';
+import { readTableSource, parseCoordinateValue, TableSource } from './services/tableService';
+import ImportWizard, { ImportBatch } from './components/ImportWizard';
+import GeorefPanel from './components/GeorefPanel';
+import { WarpedImage } from './services/georefService';
+import { createPlanPDF, getPlanMapFrame, PAPER_SIZES, PaperFormat, PaperOrientation } from './services/pdfService';
 
-declare const UTIF: any;
 declare const JSZip: any;
 declare const XLSX: any;
 
@@ -22,12 +33,16 @@ interface ExportResult {
     date: string;
     size: string;
     coords: string;
+    projection: string;
 }
 
 interface LayerInfo {
     id: string;
     name: string;
-    type: 'KML' | 'SHP' | 'DXF';
+    type: 'KML' | 'SHP' | 'DXF' | 'GEOJSON' | 'GPX' | 'XLS' | 'CSV' | 'RASTER';
+    subLayers?: Array<{ name: string, visible: boolean }>; // DXF layers, KML folders
+    ownStyle?: boolean; // KML drawn with its own styles (undefined: no styles in the file)
+    raster?: { visible: boolean, opacity: number }; // GeoTIFF / image + world file
 }
 
 interface ManualFeatureInfo {
@@ -66,6 +81,12 @@ const EXPORT_SCALES = [
   { label: '5 m', value: 500 }
 ];
 
+// WGS 84 pixel size: 0.0324″ / px, 1.2′ / px, 3.5° / px
+const formatDegreeResolution = (degrees: number) => {
+  const [value, unit] = degrees >= 1 ? [degrees, '°'] : degrees * 60 >= 1 ? [degrees * 60, '′'] : [degrees * 3600, '″'];
+  return `${Number(value.toPrecision(3))}${unit} / px`;
+};
+
 const MAP_SCALES = [
     { label: '1:500', value: 500 },
     { label: '1:1000', value: 1000 },
@@ -79,6 +100,38 @@ const MAP_SCALES = [
     { label: '1:250000', value: 250000 }
 ];
 
+// Treatment of the area outside the clipping polygon
+const EXPORT_MASKS: Array<{ value: string, label: string, clip: boolean, alpha: boolean, noData?: number }> = [
+    { value: 'alpha', label: 'RGBA (canal alpha)', clip: true, alpha: true },
+    { value: 'nodata-black', label: 'RGB + NoData noir (0)', clip: true, alpha: false, noData: 0 },
+    { value: 'nodata-white', label: 'RGB + NoData blanc (255)', clip: true, alpha: false, noData: 255 },
+    { value: 'none', label: 'Rectangle complet (sans masque)', clip: false, alpha: false }
+];
+
+// Output formats: tiled GeoTIFF (optionally compressed) or a single image + world file
+const EXPORT_FORMATS: Array<{ value: string, label: string, ext: string, worldExt: string, compression?: TiffCompression, lossy: boolean }> = [
+    { value: 'tif', label: 'GeoTIFF (non compressé)', ext: 'tif', worldExt: 'tfw', compression: 'none', lossy: false },
+    { value: 'tif-lzw', label: 'GeoTIFF LZW', ext: 'tif', worldExt: 'tfw', compression: 'lzw', lossy: false },
+    { value: 'tif-deflate', label: 'GeoTIFF Deflate', ext: 'tif', worldExt: 'tfw', compression: 'deflate', lossy: false },
+    { value: 'tif-jpeg', label: 'GeoTIFF JPEG', ext: 'tif', worldExt: 'tfw', compression: 'jpeg', lossy: true },
+    { value: 'jpg', label: 'JPEG + .jgw', ext: 'jpg', worldExt: 'jgw', lossy: true },
+    { value: 'png', label: 'PNG + .pgw', ext: 'png', worldExt: 'pgw', lossy: false }
+];
+
+const EXPORT_QUALITIES = [
+    { value: 0.95, label: 'Haute (95%)' },
+    { value: 0.85, label: 'Moyenne (85%)' },
+    { value: 0.7, label: 'Compacte (70%)' }
+];
+
+// JPEG / PNG are encoded from a single canvas
+const MAX_IMAGE_SIDE = 16384;
+
+// Above this many pixels, ask before starting a (long) tiled export
+const LARGE_EXPORT_PIXELS = 400000000;
+// JSZip limit: bigger GeoTIFFs are downloaded alone
+const MAX_ZIP_BYTES = 2000 * 1024 * 1024;
+
 const ZONES = [
   { code: 'EPSG:4326', label: 'WGS 84' },
   { code: 'EPSG:26191', label: 'Zone 1 (Nord Maroc)' },
@@ -109,7 +162,18 @@ const App: React.FC = () => {
   const [zipBlob, setZipBlob] = useState<Blob | null>(null);
   const [fileName, setFileName] = useState("");
   const [selectedScale, setSelectedScale] = useState<number>(1000);
+  const [exportMask, setExportMask] = useState<string>('alpha');
+  const [exportFormat, setExportFormat] = useState<string>('tif-deflate');
+  const [exportQuality, setExportQuality] = useState<number>(0.85);
+  // PDF layout (plan de situation)
+  const [printPaper, setPrintPaper] = useState<PaperFormat>('A4');
+  const [printOrientation, setPrintOrientation] = useState<PaperOrientation>('portrait');
+  const [printScale, setPrintScale] = useState<number>(1000);
+  const [printProject, setPrintProject] = useState<string>('');
+  const [printOperator, setPrintOperator] = useState<string>('');
+  const [batchAttribute, setBatchAttribute] = useState<string>('');
   const [mapType, setMapType] = useState<MapType>('satellite');
+  const [showGrid, setShowGrid] = useState(false);
   
   // Measurement State
   const [measureUnit, setMeasureUnit] = useState<string>('m');
@@ -133,6 +197,16 @@ const App: React.FC = () => {
   // Configuration State
   const [selectedZone, setSelectedZone] = useState<string>('EPSG:26191'); 
   const [selectedExcelFile, setSelectedExcelFile] = useState<File | null>(null);
+  const [importSource, setImportSource] = useState<TableSource | null>(null); // Points file open in the import wizard
+  const [pendingTables, setPendingTables] = useState<File[]>([]); // Dropped points files, opened one after the other in the wizard
+  const [pendingGeoJSON, setPendingGeoJSON] = useState<{ file: File, zone: string } | null>(null); // GeoJSON waiting for its source zone
+  const [pendingGeoJSONFiles, setPendingGeoJSONFiles] = useState<File[]>([]); // Next GeoJSON files without crs, asked one after the other
+  const [wktInput, setWktInput] = useState<{ text: string, zone: string, error?: string } | null>(null); // WKT / EWKT paste panel
+  const [wktWithSrid, setWktWithSrid] = useState(false); // Copy as EWKT (SRID=...;)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [importReports, setImportReports] = useState<ImportResult[]>([]); // Outcome of the last file imports
+  const [showGeoref, setShowGeoref] = useState(false); // Scanned plan georeferencing tool
+  const [geojsonExportZone, setGeojsonExportZone] = useState<string>('EPSG:4326');
   
   // Layer Management
   const [layers, setLayers] = useState<LayerInfo[]>([]);
@@ -140,6 +214,7 @@ const App: React.FC = () => {
   const [selectedLayerId, setSelectedLayerId] = useState<string>('manual');
 
   const [locationName, setLocationName] = useState<string>("location");
+  const [locationLabel, setLocationLabel] = useState<string>(""); // Commune as named by Nominatim (PDF title block)
   
   // Mouse Coordinates
   const [mouseCoords, setMouseCoords] = useState({ x: 'E0.0000', y: 'N0.0000' });
@@ -149,20 +224,28 @@ const App: React.FC = () => {
   const [manualY, setManualY] = useState<string>('');
   const [pointCounter, setPointCounter] = useState<number>(1);
   
-  // Processing State
-  const [countdown, setCountdown] = useState<number>(0);
+  // Processing State (tiles rendered / total, current feature in batch mode)
+  const [progress, setProgress] = useState<{ done: number, total: number, item?: string }>({ done: 0, total: 0 });
   
   const mapComponentRef = useRef<MapComponentRef>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
   const kmlInputRef = useRef<HTMLInputElement>(null);
   const shpInputRef = useRef<HTMLInputElement>(null);
   const dxfInputRef = useRef<HTMLInputElement>(null);
+  const geojsonInputRef = useRef<HTMLInputElement>(null);
+  const gpxInputRef = useRef<HTMLInputElement>(null);
   const excelInputRef = useRef<HTMLInputElement>(null);
+  const rasterInputRef = useRef<HTMLInputElement>(null);
+  const layerCounterRef = useRef(0);
 
   // Auto-fetch location name when selection occurs
   useEffect(() => {
     if (exportData) {
         fetchLocationName(parseFloat(exportData.lat), parseFloat(exportData.lng))
-            .then(name => setLocationName(name));
+            .then(location => {
+                setLocationName(location.slug);
+                setLocationLabel(location.name);
+            });
     }
   }, [exportData]);
 
@@ -233,96 +316,225 @@ const App: React.FC = () => {
       ref.current?.click();
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'KML' | 'SHP' | 'DXF' | 'XLS') => {
+  // Unique even for several files imported at the same time
+  const newLayerId = () => `layer_${Date.now()}_${++layerCounterRef.current}`;
+
+  // Rapport d'import; la couche n'entre dans la TOC que si des entités ont été chargées
+  const finishImport = (result: ImportResult, layerId: string, type: LayerInfo['type']) => {
+      setImportReports(prev => [...prev, result]);
+      if (result.loaded === 0) return;
+
+      setActiveTool('Pan'); 
+      mapComponentRef.current?.setDrawTool(null);
+      const newLayer: LayerInfo = {
+          id: layerId,
+          name: result.fileName,
+          type,
+          ...(result.subLayers && result.subLayers.length > 0 ? { subLayers: result.subLayers.map(name => ({ name, visible: true })) } : {}),
+          ...(result.styled ? { ownStyle: true } : {}),
+          ...(type === 'RASTER' ? { raster: { visible: true, opacity: 1 } } : {})
+      };
+      setLayers(prev => [...prev, newLayer]);
+      setSelectedLayerId(layerId);
+      setToolboxOpen(true); 
+  };
+
+  const toggleSubLayer = (layerId: string, name: string) => {
+      const sub = layers.find(l => l.id === layerId)?.subLayers?.find(s => s.name === name);
+      if (!sub) return;
+      mapComponentRef.current?.setSubLayerVisible(layerId, name, !sub.visible);
+      setLayers(prev => prev.map(l => l.id === layerId
+          ? { ...l, subLayers: l.subLayers?.map(s => s.name === name ? { ...s, visible: !s.visible } : s) }
+          : l));
+  };
+
+  const toggleLayerStyle = (layerId: string) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer || layer.ownStyle === undefined) return;
+      mapComponentRef.current?.setLayerStyleVisible(layerId, !layer.ownStyle);
+      setLayers(prev => prev.map(l => l.id === layerId ? { ...l, ownStyle: !l.ownStyle } : l));
+  };
+
+  const updateRaster = (layerId: string, change: { visible?: boolean, opacity?: number }) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer?.raster) return;
+      if (change.visible !== undefined) mapComponentRef.current?.setRasterVisible(layerId, change.visible);
+      if (change.opacity !== undefined) mapComponentRef.current?.setRasterOpacity(layerId, change.opacity);
+      setLayers(prev => prev.map(l => l.id === layerId && l.raster ? { ...l, raster: { ...l.raster, ...change } } : l));
+  };
+
+  // Erreur hors des chargeurs (lecture du fichier, archive...): entrée du rapport d'import
+  const reportImportFailure = (fileName: string, error: any) => {
+      console.error(error);
+      setImportReports(prev => [...prev, { ...createImportResult(fileName), error: `Import impossible : ${error?.message || error}` }]);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, type: ImportFormat) => {
       const file = e.target.files?.[0];
-      if (!file || !mapComponentRef.current) return;
+      if (file) importFile(file, type).catch(error => reportImportFailure(file.name, error));
+      e.target.value = '';
+  };
 
-      if (type !== 'XLS') {
-          setActiveTool('Pan'); 
-          mapComponentRef.current.setDrawTool(null);
-          
-          const layerId = `layer_${Date.now()}`;
-          const newLayer: LayerInfo = { id: layerId, name: file.name, type };
-          
-          setLayers(prev => [...prev, newLayer]);
-          setSelectedLayerId(layerId);
-          setToolboxOpen(true); 
+  const importFile = async (file: File, type: ImportFormat, sidecars: File[] = []) => {
+      const map = mapComponentRef.current;
+      if (!map) return;
+
+      if (type === 'XLS') {
+          setSelectedExcelFile(file);
+          return;
+      }
 
-          if (type === 'KML') mapComponentRef.current.loadKML(file, layerId);
-          if (type === 'SHP') mapComponentRef.current.loadShapefile(file, layerId);
-          if (type === 'DXF') mapComponentRef.current.loadDXF(file, selectedZone, layerId);
+      if (type === 'GEOJSON') {
+          // Sans membre crs et hors bornes lon/lat: demander la zone source
+          let geojson: any;
+          try {
+              geojson = JSON.parse(await file.text());
+          } catch (error: any) {
+              setImportReports(prev => [...prev, { ...createImportResult(file.name), error: `Fichier GeoJSON invalide : ${error?.message || error}` }]);
+              return;
+          }
+          if (!detectGeoJSONZone(geojson) && !hasLonLatCoordinates(geojson)) {
+              setPendingGeoJSONFiles(prev => [...prev, file]);
+              return;
+          }
       }
 
-      if (type === 'XLS') setSelectedExcelFile(file);
+      const layerId = newLayerId();
+      const result = type === 'KML' ? await map.loadKML(file, layerId)
+          : type === 'SHP' ? await map.loadShapefile(file, layerId, selectedZone)
+          : type === 'DXF' ? await map.loadDXF(file, selectedZone, layerId)
+          : type === 'GPX' ? await map.loadGPX(file, layerId)
+          : type === 'RASTER' ? await map.loadRaster(file, sidecars, layerId, selectedZone)
+          : await map.loadGeoJSON(file, layerId);
+      finishImport(result, layerId, type);
+  };
 
+  // Plusieurs fichiers: chacun vers son chargeur, les fichiers de points passent par l'assistant
+  const importFiles = async (files: File[]) => {
+      if (files.length === 0) return;
+      let detected: Awaited<ReturnType<typeof detectDroppedFiles>>;
+      try {
+          detected = await detectDroppedFiles(files);
+      } catch (error) {
+          files.forEach(file => reportImportFailure(file.name, error));
+          return;
+      }
+      const { imports, ignored } = detected;
+      const tables = imports.filter(i => i.format === 'XLS').map(i => i.file);
+      if (tables.length > 0) setPendingTables(prev => [...prev, ...tables]);
+      if (ignored.length > 0) setImportReports(prev => [...prev, ...ignored.map(name => ({ ...createImportResult(name), error: 'Format non reconnu.' }))]);
+      // One file after the other: a failure is reported and does not stop the next files
+      for (const i of imports.filter(i => i.format !== 'XLS')) {
+          try {
+              await importFile(i.file, i.format, i.sidecars);
+          } catch (error) {
+              reportImportFailure(i.file.name, error);
+          }
+      }
+  };
+
+  // Fichiers déposés sur la carte
+  const handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Raster choisi avec son World File / .prj (sélection multiple)
+  const handleRasterUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      importFiles(Array.from(e.target.files || []));
       e.target.value = '';
   };
 
-  const parseCoordinateValue = (val: any): number => {
-    if (typeof val === 'number') return val;
-    if (!val) return NaN;
-    let strVal = String(val).trim();
-    strVal = strVal.replace(/\s/g, '').replace(/\u00A0/g, '');
-    strVal = strVal.replace(',', '.');
-    const parsed = parseFloat(strVal);
-    return isNaN(parsed) ? NaN : parsed;
+  // Next dropped points file, once the wizard is closed
+  useEffect(() => {
+      if (importSource || pendingTables.length === 0) return;
+      const [next, ...rest] = pendingTables;
+      setPendingTables(rest);
+      readTableSource(next).then(setImportSource).catch(err => {
+          console.error(err);
+          alert(`Erreur lors de la lecture du fichier ${next.name}.`);
+      });
+  }, [importSource, pendingTables]);
+
+  // Next GeoJSON without crs, once the zone of the previous one is chosen
+  useEffect(() => {
+      if (pendingGeoJSON || pendingGeoJSONFiles.length === 0) return;
+      const [next, ...rest] = pendingGeoJSONFiles;
+      setPendingGeoJSONFiles(rest);
+      setPendingGeoJSON({ file: next, zone: selectedZone === 'EPSG:4326' ? 'EPSG:26191' : selectedZone });
+  }, [pendingGeoJSON, pendingGeoJSONFiles]);
+
+  // WKT / EWKT collé: dessins manuels (le SRID d'un EWKT prime sur la zone choisie)
+  const addPastedWKT = () => {
+      if (!wktInput || !mapComponentRef.current) return;
+      const result = mapComponentRef.current.addWKT(wktInput.text, wktInput.zone);
+      if (result.error || result.loaded === 0) {
+          setWktInput({ ...wktInput, error: result.error || 'Aucune géométrie ajoutée.' });
+          return;
+      }
+      setWktInput(null);
+      if (result.crsIssues.length > 0) setImportReports(prev => [...prev, result]);
+  };
+
+  const copySelectionWKT = async (zoneCode: string) => {
+      const wkt = mapComponentRef.current?.getWKT(selectedLayerId, zoneCode, wktWithSrid);
+      if (!wkt) {
+          alert("Aucune géométrie à copier.");
+          return;
+      }
+      try {
+          await navigator.clipboard.writeText(wkt);
+      } catch {
+          alert("Impossible d'accéder au presse-papiers.");
+      }
+  };
+
+  const confirmGeoJSONZone = async () => {
+      if (!pendingGeoJSON || !mapComponentRef.current) return;
+      const { file, zone } = pendingGeoJSON;
+      setPendingGeoJSON(null);
+      const layerId = newLayerId();
+      finishImport(await mapComponentRef.current.loadGeoJSON(file, layerId, zone), layerId, 'GEOJSON');
   };
 
-  const processExcelFile = () => {
+  // Ouvre l'assistant d'import (aperçu et association des colonnes)
+  const openImportWizard = async () => {
     if (!selectedExcelFile || !mapComponentRef.current) {
-        alert("Veuillez sélectionner un fichier Excel.");
+        alert("Veuillez sélectionner un fichier de points.");
         return;
     }
-    setActiveTool(null);
-    mapComponentRef.current.setDrawTool(null);
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        const data = e.target?.result;
-        if (!data) return;
-        try {
-            const workbook = XLSX.read(data, { type: 'array' });
-            const firstSheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[firstSheetName];
-            const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: "" });
-
-            const validPoints: Array<{x: number, y: number, label?: string}> = [];
-            
-            jsonData.forEach((row: any) => {
-                const xKey = Object.keys(row).find(k => /^(x|lng|lon|longitude|easting)$/i.test(k));
-                const yKey = Object.keys(row).find(k => /^(y|lat|latitude|northing)$/i.test(k));
-                const labelKey = Object.keys(row).find(k => /^(id|name|nom|label|point)$/i.test(k));
-
-                if (xKey && yKey) {
-                    const rawX = parseCoordinateValue(row[xKey]);
-                    const rawY = parseCoordinateValue(row[yKey]);
-
-                    if (!isNaN(rawX) && !isNaN(rawY)) {
-                        const wgs84 = projectFromZone(rawX, rawY, selectedZone);
-                        if (wgs84) {
-                            validPoints.push({
-                                x: wgs84[0],
-                                y: wgs84[1],
-                                label: labelKey ? String(row[labelKey]) : undefined
-                            });
-                        }
-                    }
-                }
-            });
+    try {
+        setImportSource(await readTableSource(selectedExcelFile));
+    } catch (err) {
+        console.error(err);
+        alert("Erreur lors de la lecture du fichier.");
+    }
+  };
 
-            if (validPoints.length > 0) {
-                mapComponentRef.current?.loadExcelPoints(validPoints);
-                setSelectedExcelFile(null); // Clear after load
-                setShowExcelPanel(false); // Close panel
-            } else {
-                alert("Aucun point valide trouvé. Vérifiez les noms de colonnes (X, Y).");
-            }
-        } catch (err) {
-            console.error(err);
-            alert("Erreur lors de la lecture du fichier Excel.");
+  // Chaque fichier / feuille importé devient une couche de points nommée (les imports s'ajoutent)
+  const importTablePoints = (batches: ImportBatch[], zoneCode: string) => {
+    if (!importSource) return;
+    setActiveTool(null);
+    mapComponentRef.current?.setDrawTool(null);
+    const type: LayerInfo['type'] = importSource.kind === 'workbook' ? 'XLS' : 'CSV';
+    const newLayers: LayerInfo[] = [];
+    batches.forEach(batch => {
+        const name = batch.sheet && importSource.kind === 'workbook' && importSource.sheets.length > 1 ? `${importSource.name} — ${batch.sheet}` : importSource.name;
+        const pointsLayer: LayerInfo = { id: newLayerId(), name, type };
+        newLayers.push(pointsLayer);
+        mapComponentRef.current?.loadExcelPoints(batch.points, pointsLayer.id);
+        // Lignes / polygones par code: couche à part, utilisable comme limite de découpage
+        if (batch.shapes.length > 0) {
+            const shapesLayer: LayerInfo = { id: `${pointsLayer.id}_codes`, name: `${name} (codes)`, type };
+            newLayers.push(shapesLayer);
+            mapComponentRef.current?.loadCodedShapes(batch.shapes, shapesLayer.id);
         }
-    };
-    reader.readAsArrayBuffer(selectedExcelFile);
+    });
+    setLayers(prev => [...prev, ...newLayers]);
+    setSelectedZone(zoneCode);
+    setSelectedExcelFile(null); // Clear after load
+    setShowExcelPanel(false); // Close panel
   };
 
   const handleManualAddPoint = () => {
@@ -369,108 +581,523 @@ const App: React.FC = () => {
       setShowSearchPanel(false);
   };
 
+  const getExportFormat = () => EXPORT_FORMATS.find(f => f.value === exportFormat) || EXPORT_FORMATS[0];
+
+  // NoData masks are not offered with lossy formats (JPEG alters the NoData colour)
+  const changeExportFormat = (value: string) => {
+    setExportFormat(value);
+    const lossy = EXPORT_FORMATS.find(f => f.value === value)?.lossy;
+    if (lossy && EXPORT_MASKS.find(m => m.value === exportMask)?.noData !== undefined) setExportMask('alpha');
+  };
+
+  const fitsImageFormat = (grid: ExportGrid) =>
+    getExportFormat().ext === 'tif' || (grid.width <= MAX_IMAGE_SIDE && grid.height <= MAX_IMAGE_SIDE);
+
+  // Render an export grid tile by tile in the chosen format, with the chosen mask option
+  const renderRaster = async (grid: ExportGrid, signal: AbortSignal, onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+    const geo = { extent: grid.extent, pixelSize: grid.pixelSize, zoneCode: grid.zoneCode };
+    const mask = EXPORT_MASKS.find(m => m.value === exportMask) || EXPORT_MASKS[0];
+    const format = getExportFormat();
+    // JPEG has neither alpha nor a reliable NoData (lossy): the outside of the polygon is left black, undeclared
+    const noData = format.lossy ? undefined : mask.noData;
+
+    if (format.compression) {
+        const writer = createGeoTiffWriter(grid.width, grid.height, geo, {
+            tileSize: grid.tileSize, alpha: mask.alpha, noData, compression: format.compression, quality: exportQuality
+        });
+        await mapComponentRef.current!.renderExportTiles(grid, async (tile, col, row) => {
+            const ctx = tile.getContext('2d');
+            if (!ctx) throw new Error("Empty Canvas");
+            await writer.addTile(col, row, ctx.getImageData(0, 0, tile.width, tile.height).data);
+        }, { onProgress, signal, clip: mask.clip });
+        return writer.finish();
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = grid.width;
+    canvas.height = grid.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Empty Canvas");
+    if (noData !== undefined) {
+        ctx.fillStyle = `rgb(${noData},${noData},${noData})`;
+        ctx.fillRect(0, 0, grid.width, grid.height);
+    }
+    await mapComponentRef.current!.renderExportTiles(grid, (tile, col, row) => {
+        ctx.drawImage(tile, col * grid.tileSize, row * grid.tileSize);
+    }, { onProgress, signal, clip: mask.clip });
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format.ext === 'jpg' ? 'image/jpeg' : 'image/png', exportQuality));
+    if (!blob) throw new Error("Image encoding failed");
+    return blob;
+  };
+
+  // Date (MM.YY) and scale parts of the export file names
+  const getExportStamp = (currentScale: number) => {
+    const date = new Date();
+    const dateStr = `${(date.getMonth() + 1).toString().padStart(2, '0')}.${date.getFullYear().toString().slice(-2)}`;
+    const fullDateStr = date.toLocaleDateString('fr-FR');
+    // Scale String (e.g., 500m or 1000)
+    const scaleObj = EXPORT_SCALES.find(s => s.value === currentScale);
+    const scaleStr = scaleObj ? scaleObj.label.replace(/\s+/g, '') : currentScale.toString();
+    return { dateStr, fullDateStr, scaleStr };
+  };
+
+  const formatFileSize = (bytes: number) => {
+    const sizeInMB = (bytes / (1024 * 1024)).toFixed(2);
+    return parseFloat(sizeInMB) < 1 ? `${(bytes / 1024).toFixed(0)} KB` : `${sizeInMB} MB`;
+  };
+
+  // A new run (e.g. scale change) supersedes the one in progress
+  const beginExport = () => {
+    exportAbortRef.current?.abort();
+    setStep('PROCESSING');
+    setProgress({ done: 0, total: 0 });
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    return controller;
+  };
+
   const startClipping = async (scaleOverride?: number) => {
     if (!mapComponentRef.current || !exportData) return;
     
     // Use override if provided (for auto-generation), otherwise use state
     const currentScale = scaleOverride || selectedScale;
 
-    setStep('PROCESSING');
-    setCountdown(5);
+    // PASS THE SELECTED LAYER ID HERE
+    const grid = mapComponentRef.current.getExportGrid(currentScale, selectedLayerId, selectedZone);
+    if (!grid) return;
+    const format = getExportFormat();
+    if (!fitsImageFormat(grid)) {
+        alert(`L'image fera ${grid.width} x ${grid.height} px, trop grande pour le ${format.ext.toUpperCase()}. Choisissez GeoTIFF ou une échelle plus petite.`);
+        return;
+    }
+    if (grid.width * grid.height > LARGE_EXPORT_PIXELS &&
+        !window.confirm(`L'image fera ${grid.width} x ${grid.height} px. Le traitement peut être long. Continuer ?`)) return;
+
+    const controller = beginExport();
+
+    try {
+        const imageBlob = await renderRaster(grid, controller.signal, (done, total) => setProgress({ done, total }));
+        const worldFile = createWorldFile(grid.extent, grid.pixelSize);
+        const prj = getPrjWKT(selectedZone);
+        const { dateStr, fullDateStr, scaleStr } = getExportStamp(currentScale);
+
+        // Format Coordinates: n30_w010
+        const lat = parseFloat(exportData.lat);
+        const lng = parseFloat(exportData.lng);
+        const latDir = lat >= 0 ? 'n' : 's';
+        const lonDir = lng >= 0 ? 'e' : 'w';
+        const coordStr = `${latDir}${Math.floor(Math.abs(lat))}_${lonDir}${Math.floor(Math.abs(lng)).toString().padStart(3, '0')}`;
+
+        const baseName = `${locationName}_${scaleStr}_${coordStr}_${dateStr}_topoma`;
+
+        // JSZip cannot write archives above 2 GB: the GeoTIFF carries its own GeoKeys, deliver it alone
+        let blob: Blob;
+        if (imageBlob.size > MAX_ZIP_BYTES) {
+            blob = imageBlob;
+            setFileName(`${baseName}.${format.ext}`);
+        } else {
+            const zip = new JSZip();
+            zip.file(`${baseName}.${format.ext}`, imageBlob);
+            zip.file(`${baseName}.${format.worldExt}`, worldFile);
+            zip.file(`${baseName}.prj`, prj);
+            blob = await zip.generateAsync({ type: 'blob' });
+            setFileName(`${baseName}.zip`);
+        }
+
+        setZipBlob(blob);
+        
+        // Set Result Data for Table
+        setExportResult({
+            name: `${baseName}.${format.ext}`,
+            date: fullDateStr,
+            size: formatFileSize(blob.size),
+            coords: `Lat:${lat.toFixed(4)}, Lon:${lng.toFixed(4)}`,
+            projection: ZONES.find(z => z.code === selectedZone)?.label || selectedZone
+        });
+
+        setStep('DONE');
+    } catch (e) {
+        if (controller.signal.aborted) {
+            if (exportAbortRef.current === controller) setStep('SELECTED');
+            return;
+        }
+        setStep('IDLE');
+        console.error(e);
+        alert("Erreur lors du traitement. Vérifiez que la couche sélectionnée est visible.");
+    } finally {
+        if (exportAbortRef.current === controller) exportAbortRef.current = null;
+    }
+  };
 
-    const timer = setInterval(() => {
-        setCountdown((prev) => {
-            if (prev <= 1) {
-                clearInterval(timer);
-                return 0;
+  // Batch: one image (chosen format) per feature of the selected imported layer, plus a summary CSV
+  const startBatchExport = async () => {
+    const layer = layers.find(l => l.id === selectedLayerId);
+    if (!mapComponentRef.current || !layer) return;
+    const features = mapComponentRef.current.getLayerFeatures(layer.id);
+    if (features.length === 0) {
+        alert("La couche sélectionnée est vide ou invalide.");
+        return;
+    }
+
+    const controller = beginExport();
+    const format = getExportFormat();
+    const { dateStr, fullDateStr, scaleStr } = getExportStamp(selectedScale);
+    const prj = getPrjWKT(selectedZone);
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    const csvRows = ['fichier;attribut;xmin;ymin;xmax;ymax;largeur_px;hauteur_px;surface_m2;surface_ha;perimetre_m'];
+    let totalBytes = 0;
+    let oversized = false;
+
+    try {
+        for (let i = 0; i < features.length; i++) {
+            const feature = features[i];
+            const grid = mapComponentRef.current.getExportGrid(selectedScale, feature.id, selectedZone);
+            if (!grid) continue;
+            if (!fitsImageFormat(grid)) {
+                oversized = true;
+                throw new Error("Image > MAX_IMAGE_SIDE");
+            }
+
+            // File name from the chosen attribute (e.g. parcel number), made unique
+            const attrValue = batchAttribute ? String(feature.properties[batchAttribute] ?? '').trim() : '';
+            const stem = (attrValue || `entite_${i + 1}`).replace(/[^a-zA-Z0-9_\-.]+/g, '_').slice(0, 80);
+            let name = stem;
+            for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${stem}_${n}`;
+            usedNames.add(name.toLowerCase());
+
+            const imageBlob = await renderRaster(grid, controller.signal, (done, total) => setProgress({ done, total, item: `${i + 1} / ${features.length}` }));
+            totalBytes += imageBlob.size;
+            if (totalBytes > MAX_ZIP_BYTES) {
+                throw new Error("Archive > 2 GB");
             }
-            return prev - 1;
+            zip.file(`${name}.${format.ext}`, imageBlob);
+            zip.file(`${name}.${format.worldExt}`, createWorldFile(grid.extent, grid.pixelSize));
+            zip.file(`${name}.prj`, prj);
+
+            const precision = selectedZone === 'EPSG:4326' ? 7 : 2;
+            csvRows.push([
+                `${name}.${format.ext}`,
+                attrValue.replace(/;/g, ','),
+                ...grid.extent.map(v => v.toFixed(precision)),
+                grid.width, grid.height,
+                feature.area.toFixed(2), (feature.area / 10000).toFixed(4), feature.perimeter.toFixed(2)
+            ].join(';'));
+        }
+
+        // BOM so that Excel reads the accents correctly
+        zip.file(`resume_${dateStr}.csv`, '\ufeff' + csvRows.join('\r\n'));
+        const blob = await zip.generateAsync({ type: 'blob' });
+        const baseName = `${layer.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_\-]+/g, '_')}_${scaleStr}_${dateStr}_topoma_lot`;
+
+        setZipBlob(blob);
+        setFileName(`${baseName}.zip`);
+        setExportResult({
+            name: `${baseName}.zip`,
+            date: fullDateStr,
+            size: formatFileSize(blob.size),
+            coords: `${csvRows.length - 1} entités`,
+            projection: ZONES.find(z => z.code === selectedZone)?.label || selectedZone
         });
-    }, 1000);
-
-    setTimeout(async () => {
-        try {
-            // PASS THE SELECTED LAYER ID HERE
-            const result = await mapComponentRef.current!.getMapCanvas(currentScale, selectedLayerId);
-            clearInterval(timer); 
-
-            if (!result) throw new Error("Empty Canvas");
-
-            const { canvas, extent } = result;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return;
-            
-            const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            const tiffBuffer = UTIF.encodeImage(imgData.data, canvas.width, canvas.height);
-            
-            const proj4lib = (await import('proj4')).default; 
-            const minCorner = proj4lib('EPSG:3857', 'EPSG:4326', [extent[0], extent[1]]);
-            const maxCorner = proj4lib('EPSG:3857', 'EPSG:4326', [extent[2], extent[3]]);
-            
-            const pixelWidthX = (maxCorner[0] - minCorner[0]) / canvas.width;
-            const pixelHeightY = (maxCorner[1] - minCorner[1]) / canvas.height;
-
-            const tfw = [
-                pixelWidthX.toFixed(12), "0.000000000000", "0.000000000000", 
-                (-pixelHeightY).toFixed(12), minCorner[0].toFixed(12), maxCorner[1].toFixed(12)
-            ].join('\n');
-            
-            const prj = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
-            
-            // Format Date: MM.YY
-            const date = new Date();
-            const dateStr = `${(date.getMonth() + 1).toString().padStart(2, '0')}.${date.getFullYear().toString().slice(-2)}`;
-            const fullDateStr = date.toLocaleDateString('fr-FR');
-
-            // Format Coordinates: n30_w010
-            const lat = parseFloat(exportData.lat);
-            const lng = parseFloat(exportData.lng);
-            const latDir = lat >= 0 ? 'n' : 's';
-            const lonDir = lng >= 0 ? 'e' : 'w';
-            const coordStr = `${latDir}${Math.floor(Math.abs(lat))}_${lonDir}${Math.floor(Math.abs(lng)).toString().padStart(3, '0')}`;
-            
-            // Scale String (e.g., 500m or 1000)
-            const scaleObj = EXPORT_SCALES.find(s => s.value === currentScale);
-            const scaleStr = scaleObj ? scaleObj.label.replace(/\s+/g, '') : currentScale.toString();
-
-            const baseName = `${locationName}_${scaleStr}_${coordStr}_${dateStr}_topoma`;
+        setStep('DONE');
+    } catch (e) {
+        if (controller.signal.aborted) {
+            if (exportAbortRef.current === controller) setStep('SELECTED');
+            return;
+        }
+        setStep('IDLE');
+        console.error(e);
+        alert(oversized
+            ? `Une entité dépasse ${MAX_IMAGE_SIDE} px pour le ${format.ext.toUpperCase()}. Choisissez GeoTIFF ou une échelle plus petite.`
+            : totalBytes > MAX_ZIP_BYTES
+                ? "L'archive dépasse 2 GB. Choisissez une échelle plus petite."
+                : "Erreur lors du traitement par lot.");
+    } finally {
+        if (exportAbortRef.current === controller) exportAbortRef.current = null;
+    }
+  };
 
-            const zip = new JSZip();
-            zip.file(`${baseName}.tif`, tiffBuffer);
-            zip.file(`${baseName}.tfw`, tfw);
-            zip.file(`${baseName}.prj`, prj);
+  // Print layout: map frame at exactly 1:printScale, centred on the selection
+  const startPlanPDF = async () => {
+    if (!mapComponentRef.current || !exportData) return;
+    // WGS 84 has no metric grid: the plan would not be at the printed scale
+    if (selectedZone === 'EPSG:4326') {
+        alert("Le plan PDF est à l'échelle : choisissez une zone Lambert.");
+        return;
+    }
+    const selection = mapComponentRef.current.getExportGrid(printScale, selectedLayerId, selectedZone);
+    if (!selection) return;
+
+    const frame = getPlanMapFrame(printPaper, printOrientation);
+    // Ground units per millimetre of paper (the scale resolution is given for 96 dpi)
+    const groundPerMm = getZoneResolutionFromScale(printScale, selectedZone) * 96 / 25.4;
+    const dpi = PAPER_SIZES[printPaper].dpi;
+    const widthPx = Math.round(frame.width / 25.4 * dpi);
+    const heightPx = Math.round(frame.height / 25.4 * dpi);
+    const pixelSize = frame.width * groundPerMm / widthPx;
+    const cx = (selection.extent[0] + selection.extent[2]) / 2;
+    const cy = (selection.extent[1] + selection.extent[3]) / 2;
+    const extent = [cx - widthPx * pixelSize / 2, cy - heightPx * pixelSize / 2, cx + widthPx * pixelSize / 2, cy + heightPx * pixelSize / 2];
+    // Same spacing for the frame ticks and the burned-in grid (labelled by the frame only)
+    const gridInterval = getGridInterval(pixelSize * dpi / 96);
+
+    const controller = beginExport();
+    try {
+        const result = await mapComponentRef.current.getMapCanvas(printScale, selectedLayerId, selectedZone, {
+            extent, pixelSize, clip: false, gridInterval, gridLabels: false, signal: controller.signal, onProgress: (done, total) => setProgress({ done, total })
+        });
+        if (!result) {
+            setStep('SELECTED');
+            return;
+        }
 
-            const blob = await zip.generateAsync({ type: 'blob' });
-            const sizeInMB = (blob.size / (1024 * 1024)).toFixed(2);
-            const sizeStr = parseFloat(sizeInMB) < 1 ? `${(blob.size / 1024).toFixed(0)} KB` : `${sizeInMB} MB`;
+        const { dateStr, fullDateStr } = getExportStamp(printScale);
+        const projection = ZONES.find(z => z.code === selectedZone)?.label || selectedZone;
+        const legend = mapComponentRef.current.getLegendItems(result.grid.extent, selectedZone).map(item => ({
+            ...item,
+            label: item.layerId ? (layers.find(l => l.id === item.layerId)?.name || item.label) : item.label
+        }));
+        const blob = createPlanPDF({
+            paper: printPaper,
+            orientation: printOrientation,
+            scale: printScale,
+            map: result.canvas,
+            extent: result.grid.extent,
+            zoneCode: selectedZone,
+            project: printProject.trim(),
+            commune: locationLabel,
+            date: fullDateStr,
+            operator: printOperator.trim(),
+            projection,
+            legend,
+            gridInterval
+        });
 
-            setZipBlob(blob);
-            setFileName(`${baseName}.zip`);
-            
-            // Set Result Data for Table
-            setExportResult({
-                name: `${baseName}.tif`,
-                date: fullDateStr,
-                size: sizeStr,
-                coords: `Lat:${lat.toFixed(4)}, Lon:${lng.toFixed(4)}`
-            });
+        const baseName = `plan_${locationName}_${printPaper}_1-${printScale}_${dateStr}_topoma`;
+        setZipBlob(blob);
+        setFileName(`${baseName}.pdf`);
+        setExportResult({
+            name: `${baseName}.pdf`,
+            date: fullDateStr,
+            size: formatFileSize(blob.size),
+            coords: `Lat:${parseFloat(exportData.lat).toFixed(4)}, Lon:${parseFloat(exportData.lng).toFixed(4)}`,
+            projection
+        });
+        setStep('DONE');
+    } catch (e) {
+        if (controller.signal.aborted) {
+            if (exportAbortRef.current === controller) setStep('SELECTED');
+            return;
+        }
+        setStep('IDLE');
+        console.error(e);
+        alert("Erreur lors de la création du PDF.");
+    } finally {
+        if (exportAbortRef.current === controller) exportAbortRef.current = null;
+    }
+  };
+
+  const downloadBlob = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = name; a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Plan géoréférencé: GeoTIFF + world file + .prj dans un zip
+  const exportGeorefPlan = async (warped: WarpedImage, zoneCode: string, planName: string) => {
+    const { canvas, extent, pixelSize } = warped;
+    const rgba = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+    const tiff = await encodeGeoTIFF(rgba, canvas.width, canvas.height, { extent, pixelSize, zoneCode }, { compression: 'deflate' });
+    const { dateStr } = getExportStamp(selectedScale);
+    const baseName = `${planName}_georef_${dateStr}_topoma`;
+    if (tiff.size > MAX_ZIP_BYTES) {
+        downloadBlob(tiff, `${baseName}.tif`);
+        return;
+    }
+    const zip = new JSZip();
+    zip.file(`${baseName}.tif`, tiff);
+    zip.file(`${baseName}.tfw`, createWorldFile(extent, pixelSize));
+    zip.file(`${baseName}.prj`, getPrjWKT(zoneCode));
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), `${baseName}.zip`);
+  };
+
+  // Drawn features, points and measurements: one shapefile per geometry type, in the selected zone
+  const exportVectorShapefiles = async () => {
+    const features = (mapComponentRef.current?.getVectorFeatures(selectedZone) || []).filter(f => f.source !== 'imported');
+    if (features.length === 0) {
+        alert("Aucune entité à exporter (dessins, points ou mesures).");
+        return;
+    }
+
+    const coordDecimals = selectedZone === 'EPSG:4326' ? 8 : 3;
+    const labelFields: DbfField[] = [{ name: 'LABEL', type: 'C', length: 80 }, { name: 'TYPE', type: 'C', length: 20 }];
+    const sets: Array<{ shapeType: ShapeType, geometryType: string, suffix: string, fields: DbfField[] }> = [
+        { shapeType: 'Point', geometryType: 'Point', suffix: 'points', fields: [...labelFields,
+            { name: 'X', type: 'N', length: 20, decimals: coordDecimals }, { name: 'Y', type: 'N', length: 20, decimals: coordDecimals }] },
+        { shapeType: 'PolyLine', geometryType: 'LineString', suffix: 'lignes', fields: [...labelFields,
+            { name: 'LONG_M', type: 'N', length: 18, decimals: 2 }] },
+        { shapeType: 'Polygon', geometryType: 'Polygon', suffix: 'polygones', fields: [...labelFields,
+            { name: 'SURF_M2', type: 'N', length: 18, decimals: 2 }, { name: 'SURF_HA', type: 'C', length: 40 }, { name: 'PERIM_M', type: 'N', length: 18, decimals: 2 }] },
+    ];
+
+    const { dateStr } = getExportStamp(selectedScale);
+    const baseName = `${locationName}_vecteurs_${dateStr}_topoma`;
+    const prj = getPrjWKT(selectedZone);
+    const zip = new JSZip();
+    sets.forEach(set => {
+        const records: ShapeRecord[] = features.filter(f => f.geometryType === set.geometryType).map(f => ({
+            parts: f.parts,
+            attributes: {
+                LABEL: f.label,
+                TYPE: f.type,
+                X: f.parts[0][0][0],
+                Y: f.parts[0][0][1],
+                LONG_M: f.perimeter,
+                SURF_M2: f.area,
+                SURF_HA: formatArea(f.area).formattedHa,
+                PERIM_M: f.perimeter
+            }
+        }));
+        if (records.length === 0) return;
+        const { shp, shx, dbf } = createShapefile(set.shapeType, records, set.fields);
+        const name = `${baseName}_${set.suffix}`;
+        zip.file(`${name}.shp`, shp);
+        zip.file(`${name}.shx`, shx);
+        zip.file(`${name}.dbf`, dbf);
+        zip.file(`${name}.prj`, prj);
+        zip.file(`${name}.cpg`, 'UTF-8');
+    });
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), `${baseName}_shp.zip`);
+  };
+
+  // DXF: un calque par source (dessins, points, mesures, chaque couche importée) + numéros des sommets
+  const exportVectorDXF = () => {
+    const features = mapComponentRef.current?.getVectorFeatures(selectedZone) || [];
+    if (features.length === 0) {
+        alert("Aucune entité à exporter.");
+        return;
+    }
+
+    const dxfLayers: DxfLayer[] = [
+        { name: 'DESSINS', color: 3, features: features.filter(f => f.source === 'manual') },
+        { name: 'POINTS', color: 5, features: features.filter(f => f.source === 'points' && !f.layerId) },
+        { name: 'MESURES', color: 4, features: features.filter(f => f.source === 'measure') },
+        ...layers.map(l => ({ name: l.name, color: l.type === 'XLS' || l.type === 'CSV' ? 5 : 30, features: features.filter(f => f.layerId === l.id) }))
+    ].filter(l => l.features.length > 0);
+
+    // Hauteur du texte: 2.5 mm à l'échelle choisie
+    const textHeight = 0.0025 * selectedScale / (selectedZone === 'EPSG:4326' ? 111320 : 1);
+    const dxf = createProjectDXF(dxfLayers, { textHeight });
+    const { dateStr } = getExportStamp(selectedScale);
+    downloadBlob(new Blob([dxf], { type: 'application/dxf' }), `${locationName}_vecteurs_${dateStr}_topoma.dxf`);
+  };
+
+  // GeoJSON de toutes les sources, en WGS 84 (RFC 7946) ou en Lambert (membre crs)
+  const exportVectorGeoJSON = () => {
+    const collection = mapComponentRef.current?.getVectorGeoJSON(geojsonExportZone);
+    if (!collection || collection.features.length === 0) {
+        alert("Aucune entité à exporter.");
+        return;
+    }
+    // Nom de la couche importée d'origine
+    collection.features.forEach((f: any) => {
+        const layer = layers.find(l => l.id === f.properties?.layerId);
+        if (layer) f.properties.fichier = layer.name;
+    });
+    const { dateStr } = getExportStamp(selectedScale);
+    const zoneSuffix = geojsonExportZone === 'EPSG:4326' ? 'wgs84' : geojsonExportZone.replace('EPSG:', 'epsg');
+    downloadBlob(new Blob([JSON.stringify(collection, null, 1)], { type: 'application/geo+json' }), `${locationName}_vecteurs_${dateStr}_${zoneSuffix}_topoma.geojson`);
+  };
 
-            setStep('DONE');
-        } catch (e) {
-            setStep('IDLE');
-            clearInterval(timer);
-            console.error(e);
-            alert("Erreur lors du traitement. Vérifiez que la couche sélectionnée est visible.");
+  // GPX (GPS de terrain): points manuels en waypoints, lignes dessinées en traces
+  // (sans les points importés ni la position "Moi")
+  const exportVectorGPX = () => {
+    const features = (mapComponentRef.current?.getVectorFeatures('EPSG:4326') || [])
+        .filter(f => f.source === 'manual' || (f.source === 'points' && !f.layerId && f.type !== 'Position'));
+    const waypoints = features.filter(f => f.geometryType === 'Point')
+        .map((f, i) => ({ lon: f.parts[0][0][0], lat: f.parts[0][0][1], name: f.label || `P${i + 1}` }));
+    const tracks = features.filter(f => f.geometryType === 'LineString')
+        .map((f, i) => ({ name: f.label || `Ligne ${i + 1}`, coordinates: f.parts[0] }));
+    if (waypoints.length === 0 && tracks.length === 0) {
+        alert("Aucun point ni ligne à exporter.");
+        return;
+    }
+    const { dateStr } = getExportStamp(selectedScale);
+    const gpx = createGPX(`${locationName}_vecteurs_topoma`, waypoints, tracks);
+    downloadBlob(new Blob([gpx], { type: 'application/gpx+xml' }), `${locationName}_vecteurs_${dateStr}_topoma.gpx`);
+  };
+
+  // KML / KMZ (Google Earth): un dossier par couche, avec les couleurs de la carte
+  const exportVectorKML = async (kmz: boolean) => {
+    const features = mapComponentRef.current?.getVectorFeatures('EPSG:4326') || [];
+    if (features.length === 0) {
+        alert("Aucune entité à exporter.");
+        return;
+    }
+
+    const toKml = (f: VectorFeatureInfo): KmlFeature => {
+        const data: Record<string, string | number> = {};
+        // Attributs d'origine des couches importées (valeurs simples uniquement)
+        Object.entries(f.properties || {}).forEach(([key, value]) => {
+            if (['string', 'number', 'boolean'].includes(typeof value)) data[key] = String(value);
+        });
+        data.label = f.label;
+        data.type = f.type;
+        if (f.geometryType === 'Polygon') {
+            data.surface_m2 = f.area.toFixed(2);
+            data.surface_ha = formatArea(f.area).formattedHa;
+            data.perimetre_m = f.perimeter.toFixed(2);
+        } else if (f.geometryType === 'LineString') {
+            data.longueur_m = f.perimeter.toFixed(2);
         }
-    }, 1000);
+        return { geometryType: f.geometryType, parts: f.parts, label: f.label, data };
+    };
+
+    const folders: KmlFolder[] = [
+        { name: 'Dessins', style: VECTOR_STYLES.manual, features: features.filter(f => f.source === 'manual').map(toKml) },
+        { name: 'Points', style: VECTOR_STYLES.points, features: features.filter(f => f.source === 'points' && !f.layerId).map(toKml) },
+        { name: 'Mesures', style: VECTOR_STYLES.measure, features: features.filter(f => f.source === 'measure').map(toKml) },
+        ...layers.map(l => ({
+            name: l.name,
+            style: l.type === 'XLS' || l.type === 'CSV' ? VECTOR_STYLES.points : VECTOR_STYLES.imported,
+            features: features.filter(f => f.layerId === l.id).map(toKml)
+        }))
+    ];
+
+    const { dateStr } = getExportStamp(selectedScale);
+    const baseName = `${locationName}_vecteurs_${dateStr}_topoma`;
+    const kml = createProjectKML(`${locationName}_vecteurs_topoma`, folders);
+    if (!kmz) {
+        downloadBlob(new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' }), `${baseName}.kml`);
+        return;
+    }
+    const zip = new JSZip();
+    zip.file('doc.kml', kml);
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/vnd.google-earth.kmz' });
+    downloadBlob(blob, `${baseName}.kmz`);
   };
 
+  const cancelClipping = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  const progressPercent = progress.total > 0 ? Math.round(progress.done / progress.total * 100) : 0;
+
+  // Batch export is offered for imported layers; attribute names come from their features
+  const batchLayer = layers.find(l => l.id === selectedLayerId && !l.raster);
+  // (recomputed when the selection changes, i.e. also once the layer has finished loading)
+  const { batchFeatureCount, batchAttributes } = useMemo(() => {
+    const features = batchLayer ? (mapComponentRef.current?.getLayerFeatures(batchLayer.id) || []) : [];
+    return {
+        batchFeatureCount: features.length,
+        batchAttributes: Array.from(new Set(features.slice(0, 50).flatMap(f => Object.keys(f.properties))))
+    };
+  }, [batchLayer, exportData]);
+
   const downloadFile = () => {
     if (!zipBlob) return;
-    const url = URL.createObjectURL(zipBlob);
-    const a = document.createElement('a');
-    a.href = url; a.download = fileName; a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(zipBlob, fileName);
     setStep('DONE'); 
   };
 
@@ -483,11 +1110,14 @@ const App: React.FC = () => {
     setActiveTool(null);
     setZipBlob(null);
     setSelectedExcelFile(null);
+    setPendingTables([]);
+    setImportReports([]);
     setLayers([]);
     setManualFeatures([]);
     setSelectedLayerId('manual');
     setPointCounter(1);
     setLocationName("location");
+    setLocationLabel("");
     setSearchQuery("");
     setSearchResults([]);
     setShowContactInfo(false);
@@ -500,7 +1130,10 @@ const App: React.FC = () => {
       <input type="file" accept=".kml,.kmz" className="hidden" ref={kmlInputRef} onChange={(e) => handleFileUpload(e, 'KML')} />
       <input type="file" accept=".zip" className="hidden" ref={shpInputRef} onChange={(e) => handleFileUpload(e, 'SHP')} />
       <input type="file" accept=".dxf" className="hidden" ref={dxfInputRef} onChange={(e) => handleFileUpload(e, 'DXF')} />
-      <input type="file" accept=".xlsx, .xls" className="hidden" ref={excelInputRef} onChange={(e) => handleFileUpload(e, 'XLS')} />
+      <input type="file" accept=".geojson,.json" className="hidden" ref={geojsonInputRef} onChange={(e) => handleFileUpload(e, 'GEOJSON')} />
+      <input type="file" accept=".gpx" className="hidden" ref={gpxInputRef} onChange={(e) => handleFileUpload(e, 'GPX')} />
+      <input type="file" accept=".tif,.tiff,.jpg,.jpeg,.png,.tfw,.jgw,.pgw,.wld,.prj" multiple className="hidden" ref={rasterInputRef} onChange={handleRasterUpload} />
+      <input type="file" accept=".xlsx, .xls, .csv, .txt" className="hidden" ref={excelInputRef} onChange={(e) => handleFileUpload(e, 'XLS')} />
 
       {/* --- 1. MAIN TOOLBAR (Compact) --- */}
       <div className="bg-neutral-100 border-b border-neutral-300 p-1 flex items-center gap-1 shadow-sm shrink-0 h-10">
@@ -534,6 +1167,11 @@ const App: React.FC = () => {
                        <button onClick={() => handleFileClick(kmlInputRef)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-globe text-blue-500"></i> Ajouter KML/KMZ</button>
                        <button onClick={() => handleFileClick(shpInputRef)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-shapes text-green-500"></i> Ajouter Shapefile (ZIP)</button>
                        <button onClick={() => handleFileClick(dxfInputRef)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-pencil-ruler text-purple-500"></i> Ajouter DXF</button>
+                       <button onClick={() => handleFileClick(geojsonInputRef)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-code text-teal-600"></i> Ajouter GeoJSON</button>
+                       <button onClick={() => handleFileClick(gpxInputRef)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-satellite text-rose-500"></i> Ajouter GPX</button>
+                       <button onClick={() => handleFileClick(rasterInputRef)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-image text-indigo-600"></i> Ajouter raster (GeoTIFF / image + TFW)</button>
+                       <button onClick={() => setWktInput({ text: '', zone: selectedZone })} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2"><i className="fas fa-paste text-slate-600"></i> Coller du WKT / EWKT</button>
+                       <button onClick={() => setShowGeoref(true)} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-100 flex items-center gap-2 border-t border-neutral-100"><i className="fas fa-map-pin text-red-500"></i> Géoréférencer un plan scanné</button>
                    </div>
                </div>
           </div>
@@ -807,29 +1445,100 @@ const App: React.FC = () => {
                                        <span className="text-blue-700">Bounds:</span>
                                        <span className="font-mono truncate w-24 text-right" title={exportData.bounds.join(', ')}>Defined</span>
                                    </div>
+                                   <div className="flex items-center gap-1 border-t border-blue-200 pt-1 mt-1">
+                                       <span className="text-blue-700 mr-auto">Copier WKT:</span>
+                                       <button onClick={() => copySelectionWKT('EPSG:4326')} className="px-1.5 py-0.5 rounded border border-blue-300 bg-white hover:bg-blue-100 font-bold"><i className="fas fa-copy mr-1"></i>WGS 84</button>
+                                       {selectedZone !== 'EPSG:4326' && (
+                                           <button onClick={() => copySelectionWKT(selectedZone)} className="px-1.5 py-0.5 rounded border border-blue-300 bg-white hover:bg-blue-100 font-bold" title={ZONES.find(z => z.code === selectedZone)?.label}><i className="fas fa-copy mr-1"></i>Lambert</button>
+                                       )}
+                                       <label className="flex items-center gap-0.5 cursor-pointer" title="Préfixe SRID=...; (PostGIS)">
+                                           <input type="checkbox" checked={wktWithSrid} onChange={(e) => setWktWithSrid(e.target.checked)} /> EWKT
+                                       </label>
+                                   </div>
                                </div>
                            )}
 
                            <div>
-                               <label className="block text-neutral-600 mb-1.5 font-medium">Échelle / Résolution:</label>
+                               <label className="block text-neutral-600 mb-1.5 font-medium">{selectedZone === 'EPSG:4326' ? 'Résolution (WGS 84):' : 'Échelle / Résolution:'}</label>
                                <div className="relative">
                                    <select 
                                       value={selectedScale}
                                       onChange={(e) => handleScaleChange(Number(e.target.value))}
                                       className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 appearance-none"
                                    >
-                                      {EXPORT_SCALES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                      {/* WGS 84: pixels square in degrees, offered by resolution (arc seconds) instead of scale */}
+                                      {EXPORT_SCALES.map(s => <option key={s.value} value={s.value}>{selectedZone === 'EPSG:4326' ? formatDegreeResolution(getZoneResolutionFromScale(s.value, 'EPSG:4326')) : s.label}</option>)}
                                    </select>
                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-neutral-600">
                                        <i className="fas fa-chevron-down text-[10px]"></i>
                                    </div>
                                </div>
+                               {selectedZone === 'EPSG:4326' && (
+                                   <div className="text-[10px] text-amber-700 mt-1">
+                                       <i className="fas fa-exclamation-triangle mr-1"></i>
+                                       En WGS 84 les pixels sont carrés en degrés : la sortie n'est pas à l'échelle. Choisissez une zone Lambert pour un export à l'échelle.
+                                   </div>
+                               )}
+                           </div>
+
+                           <div className="flex gap-2">
+                               <div className="flex-1 min-w-0">
+                                   <label className="block text-neutral-600 mb-1.5 font-medium">Format:</label>
+                                   <div className="relative">
+                                       <select 
+                                          value={exportFormat}
+                                          onChange={(e) => changeExportFormat(e.target.value)}
+                                          className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 appearance-none"
+                                       >
+                                          {EXPORT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                                       </select>
+                                       <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-neutral-600">
+                                           <i className="fas fa-chevron-down text-[10px]"></i>
+                                       </div>
+                                   </div>
+                               </div>
+                               {getExportFormat().lossy && (
+                                   <div className="w-28 shrink-0">
+                                       <label className="block text-neutral-600 mb-1.5 font-medium">Qualité:</label>
+                                       <div className="relative">
+                                           <select 
+                                              value={exportQuality}
+                                              onChange={(e) => setExportQuality(Number(e.target.value))}
+                                              className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 appearance-none"
+                                           >
+                                              {EXPORT_QUALITIES.map(q => <option key={q.value} value={q.value}>{q.label}</option>)}
+                                           </select>
+                                           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-neutral-600">
+                                               <i className="fas fa-chevron-down text-[10px]"></i>
+                                           </div>
+                                       </div>
+                                   </div>
+                               )}
+                           </div>
+
+                           <div>
+                               <label className="block text-neutral-600 mb-1.5 font-medium">Hors polygone (masque):</label>
+                               <div className="relative">
+                                   <select 
+                                      value={exportMask}
+                                      onChange={(e) => setExportMask(e.target.value)}
+                                      className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 appearance-none"
+                                   >
+                                      {EXPORT_MASKS.map(m => <option key={m.value} value={m.value} disabled={getExportFormat().lossy && m.noData !== undefined}>{m.label}</option>)}
+                                   </select>
+                                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-neutral-600">
+                                       <i className="fas fa-chevron-down text-[10px]"></i>
+                                   </div>
+                               </div>
+                               {getExportFormat().lossy && exportMask === 'alpha' && (
+                                   <p className="text-[10px] text-amber-700 mt-1">JPEG sans transparence ni NoData : noir hors polygone.</p>
+                               )}
                            </div>
 
                            <div className="border border-neutral-200 p-3 bg-neutral-50 min-h-[160px] flex flex-col items-center justify-center text-center rounded relative overflow-hidden">
                                {step === 'IDLE' && <span className="text-neutral-400 italic">Sélectionnez une zone...</span>}
                                
-                               {(step === 'SELECTED' || (selectedLayerId !== 'manual' && exportData) || (selectedLayerId === 'manual' && manualFeatures.length > 0)) && (
+                               {step !== 'PROCESSING' && (step === 'SELECTED' || (selectedLayerId !== 'manual' && exportData) || (selectedLayerId === 'manual' && manualFeatures.length > 0)) && (
                                    <>
                                      <div className="text-green-600 font-bold mb-3 flex items-center gap-1"><i className="fas fa-check-circle"></i> Prêt pour le traitement</div>
                                      <button onClick={() => startClipping()} className="bg-blue-600 border border-blue-700 text-white px-6 py-2 rounded hover:bg-blue-700 shadow-md transition-all font-bold flex items-center gap-2">
@@ -847,10 +1556,15 @@ const App: React.FC = () => {
                                               <i className="fas fa-layer-group text-blue-400 text-2xl animate-pulse"></i>
                                           </div>
                                       </div>
-                                     <span className="text-blue-700 font-bold text-xs animate-pulse">Traitement en cours... {countdown}%</span>
+                                     <span className="text-blue-700 font-bold text-xs animate-pulse">Traitement en cours... {progressPercent}%</span>
+                                     {progress.item && <span className="text-[10px] text-neutral-600 font-bold mt-0.5">Entité {progress.item}</span>}
+                                     {progress.total > 1 && <span className="text-[10px] text-neutral-500 mt-0.5">Tuile {progress.done} / {progress.total}</span>}
                                      <div className="w-full bg-neutral-200 h-1.5 mt-2 rounded-full overflow-hidden">
-                                         <div className="bg-blue-500 h-full transition-all duration-1000 ease-linear" style={{width: `${(5-countdown)*20}%`}}></div>
+                                         <div className="bg-blue-500 h-full transition-all duration-300 ease-linear" style={{width: `${progressPercent}%`}}></div>
                                      </div>
+                                     <button onClick={cancelClipping} className="mt-3 bg-white border border-red-300 text-red-600 px-3 py-1 rounded hover:bg-red-50 text-[11px] font-bold flex items-center gap-1">
+                                         <i className="fas fa-stop text-[9px]"></i> Annuler
+                                     </button>
                                    </div>
                                )}
 
@@ -872,14 +1586,18 @@ const App: React.FC = () => {
                                                <div className="bg-neutral-100 p-1 font-bold text-neutral-600">Taille</div>
                                                <div className="p-1 font-mono text-blue-600 font-bold">{exportResult.size}</div>
                                            </div>
-                                           <div className="grid grid-cols-[60px_1fr]">
+                                           <div className="grid grid-cols-[60px_1fr] border-b border-neutral-200">
                                                <div className="bg-neutral-100 p-1 font-bold text-neutral-600">Coord</div>
                                                <div className="p-1">{exportResult.coords}</div>
                                            </div>
+                                           <div className="grid grid-cols-[60px_1fr]">
+                                               <div className="bg-neutral-100 p-1 font-bold text-neutral-600">Prj</div>
+                                               <div className="p-1">{exportResult.projection}</div>
+                                           </div>
                                        </div>
 
                                        <button onClick={downloadFile} className="bg-green-600 border border-green-700 text-white px-4 py-2 rounded hover:bg-green-700 flex items-center gap-2 font-bold shadow-md w-full justify-center">
-                                           <i className="fas fa-download"></i> Télécharger ZIP
+                                           <i className="fas fa-download"></i> Télécharger {fileName.split('.').pop()?.toUpperCase()}
                                        </button>
                                    </div>
                                )}
@@ -887,6 +1605,171 @@ const App: React.FC = () => {
                        </div>
                    </div>
 
+                   {/* BATCH EXPORT (Imported layer: one GeoTIFF per feature) */}
+                   {batchLayer && (
+                       <div className="border border-neutral-300 bg-white mb-2 shadow-sm rounded-sm">
+                           <div className="bg-neutral-200 px-2 py-1.5 text-xs font-bold border-b border-neutral-300 flex items-center gap-2 text-neutral-700">
+                               <i className="fas fa-copy text-neutral-500"></i> Export par lot
+                           </div>
+                           <div className="p-3 text-xs space-y-3">
+                               <div className="text-[11px] text-neutral-500">
+                                   Une image par entité de <span className="font-bold text-neutral-700">{batchLayer.name}</span> ({batchFeatureCount}), avec un résumé CSV.
+                               </div>
+                               <div>
+                                   <label className="block text-neutral-600 mb-1.5 font-medium">Nommer les fichiers par:</label>
+                                   <select 
+                                      value={batchAttribute}
+                                      onChange={(e) => setBatchAttribute(e.target.value)}
+                                      className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500"
+                                   >
+                                      <option value="">(Numéro d'entité)</option>
+                                      {batchAttributes.map(a => <option key={a} value={a}>{a}</option>)}
+                                   </select>
+                               </div>
+                               <button 
+                                  onClick={startBatchExport} 
+                                  disabled={step === 'PROCESSING' || batchFeatureCount === 0}
+                                  className={`w-full text-white px-3 py-2 rounded font-bold flex items-center justify-center gap-2 ${step === 'PROCESSING' || batchFeatureCount === 0 ? 'bg-neutral-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 shadow-md'}`}
+                               >
+                                   <i className="fas fa-layer-group text-[10px]"></i> GÉNÉRER LE LOT
+                               </button>
+                           </div>
+                       </div>
+                   )}
+
+                   {/* PDF LAYOUT (Plan de situation at an exact scale) */}
+                   {exportData && (
+                       <div className="border border-neutral-300 bg-white mb-2 shadow-sm rounded-sm">
+                           <div className="bg-neutral-200 px-2 py-1.5 text-xs font-bold border-b border-neutral-300 flex items-center gap-2 text-neutral-700">
+                               <i className="fas fa-file-pdf text-red-600"></i> Plan PDF
+                           </div>
+                           <div className="p-3 text-xs space-y-3">
+                               <div className="flex gap-2">
+                                   <div className="flex-1">
+                                       <label className="block text-neutral-600 mb-1.5 font-medium">Format:</label>
+                                       <select 
+                                          value={printPaper}
+                                          onChange={(e) => setPrintPaper(e.target.value as PaperFormat)}
+                                          className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500"
+                                       >
+                                          {(Object.keys(PAPER_SIZES) as PaperFormat[]).map(p => <option key={p} value={p}>{p}</option>)}
+                                       </select>
+                                   </div>
+                                   <div className="flex-1">
+                                       <label className="block text-neutral-600 mb-1.5 font-medium">Orientation:</label>
+                                       <select 
+                                          value={printOrientation}
+                                          onChange={(e) => setPrintOrientation(e.target.value as PaperOrientation)}
+                                          className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500"
+                                       >
+                                          <option value="portrait">Portrait</option>
+                                          <option value="landscape">Paysage</option>
+                                       </select>
+                                   </div>
+                               </div>
+                               <div>
+                                   <label className="block text-neutral-600 mb-1.5 font-medium">Échelle du plan:</label>
+                                   <select 
+                                      value={printScale}
+                                      onChange={(e) => setPrintScale(Number(e.target.value))}
+                                      className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500"
+                                   >
+                                      {MAP_SCALES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                                   </select>
+                               </div>
+                               <div>
+                                   <label className="block text-neutral-600 mb-1.5 font-medium">Projet:</label>
+                                   <input 
+                                      type="text"
+                                      value={printProject}
+                                      onChange={(e) => setPrintProject(e.target.value)}
+                                      placeholder="Titre du plan"
+                                      className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500"
+                                   />
+                               </div>
+                               <div>
+                                   <label className="block text-neutral-600 mb-1.5 font-medium">Opérateur:</label>
+                                   <input 
+                                      type="text"
+                                      value={printOperator}
+                                      onChange={(e) => setPrintOperator(e.target.value)}
+                                      placeholder="Nom du topographe"
+                                      className="w-full border border-neutral-300 p-1.5 rounded bg-white text-neutral-700 focus:outline-none focus:border-blue-500"
+                                   />
+                               </div>
+                               {selectedZone === 'EPSG:4326' && (
+                                   <div className="text-[10px] text-amber-700">
+                                       <i className="fas fa-exclamation-triangle mr-1"></i>
+                                       Le plan est imprimé à l'échelle : choisissez une zone Lambert (indisponible en WGS 84).
+                                   </div>
+                               )}
+                               <button 
+                                  onClick={startPlanPDF} 
+                                  disabled={step === 'PROCESSING' || selectedZone === 'EPSG:4326'}
+                                  className={`w-full text-white px-3 py-2 rounded font-bold flex items-center justify-center gap-2 ${step === 'PROCESSING' || selectedZone === 'EPSG:4326' ? 'bg-neutral-300 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700 shadow-md'}`}
+                               >
+                                   <i className="fas fa-print text-[10px]"></i> GÉNÉRER LE PDF
+                               </button>
+                           </div>
+                       </div>
+                   )}
+
+                   {/* VECTOR EXPORT (Drawings, points and measurements) */}
+                   <div className="border border-neutral-300 bg-white mb-2 shadow-sm rounded-sm">
+                       <div className="bg-neutral-200 px-2 py-1.5 text-xs font-bold border-b border-neutral-300 flex items-center gap-2 text-neutral-700">
+                           <i className="fas fa-draw-polygon text-neutral-500"></i> Export vecteurs
+                       </div>
+                       <div className="p-3 text-xs space-y-3">
+                           <div className="text-[11px] text-neutral-500">
+                               Dessins, points, mesures (et couches importées en DXF / KML) en coordonnées <span className="font-bold text-neutral-700">{ZONES.find(z => z.code === selectedZone)?.label}</span> (KML en WGS 84).
+                           </div>
+                           <button 
+                              onClick={exportVectorShapefiles} 
+                              className="w-full bg-white border border-neutral-300 text-neutral-700 px-3 py-2 rounded font-bold flex items-center justify-center gap-2 hover:bg-neutral-100 shadow-sm"
+                           >
+                               <i className="fas fa-file-archive text-[10px]"></i> Shapefile (.zip)
+                           </button>
+                           <button 
+                              onClick={exportVectorDXF} 
+                              className="w-full bg-white border border-neutral-300 text-neutral-700 px-3 py-2 rounded font-bold flex items-center justify-center gap-2 hover:bg-neutral-100 shadow-sm"
+                           >
+                               <i className="fas fa-drafting-compass text-[10px]"></i> DXF (AutoCAD / Covadis)
+                           </button>
+                           <div className="grid grid-cols-2 gap-2">
+                               <button 
+                                  onClick={() => exportVectorKML(false)} 
+                                  className="bg-white border border-neutral-300 text-neutral-700 px-3 py-2 rounded font-bold flex items-center justify-center gap-2 hover:bg-neutral-100 shadow-sm"
+                               >
+                                   <i className="fas fa-globe-africa text-[10px]"></i> KML
+                               </button>
+                               <button 
+                                  onClick={() => exportVectorKML(true)} 
+                                  className="bg-white border border-neutral-300 text-neutral-700 px-3 py-2 rounded font-bold flex items-center justify-center gap-2 hover:bg-neutral-100 shadow-sm"
+                               >
+                                   <i className="fas fa-globe-africa text-[10px]"></i> KMZ
+                               </button>
+                           </div>
+                           <div className="flex gap-2">
+                               <select value={geojsonExportZone} onChange={(e) => setGeojsonExportZone(e.target.value)} className="flex-1 min-w-0 border border-neutral-300 rounded px-1 py-1 bg-white" title="Projection du GeoJSON">
+                                   {ZONES.map(z => <option key={z.code} value={z.code}>{z.label}</option>)}
+                               </select>
+                               <button 
+                                  onClick={exportVectorGeoJSON} 
+                                  className="bg-white border border-neutral-300 text-neutral-700 px-3 py-2 rounded font-bold flex items-center justify-center gap-2 hover:bg-neutral-100 shadow-sm"
+                               >
+                                   <i className="fas fa-code text-[10px]"></i> GeoJSON
+                               </button>
+                           </div>
+                           <button 
+                              onClick={exportVectorGPX} 
+                              className="w-full bg-white border border-neutral-300 text-neutral-700 px-3 py-2 rounded font-bold flex items-center justify-center gap-2 hover:bg-neutral-100 shadow-sm"
+                              title="Points et lignes (implantation sur GPS)"
+                           >
+                               <i className="fas fa-satellite text-[10px]"></i> GPX (points et lignes)
+                           </button>
+                       </div>
+                   </div>
+
                    <div className="mt-6 border-t border-neutral-200 pt-4 text-center pb-4">
                        <div className="text-[11px] text-neutral-600 font-bold mb-3 leading-relaxed">
                            réalisé par Jilit Mostafa <br/>
@@ -912,7 +1795,44 @@ const App: React.FC = () => {
           </div>
 
           {/* CENTER: MAP CANVAS */}
-          <div className="flex-grow relative bg-white">
+          <div
+            className="flex-grow relative bg-white"
+            onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDraggingFiles(true); } }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false); }}
+            onDrop={handleFileDrop}
+          >
+              {isDraggingFiles && (
+                  <div className="absolute inset-0 z-40 pointer-events-none bg-blue-600/10 border-4 border-dashed border-blue-500 flex items-center justify-center">
+                      <div className="bg-white/95 rounded-lg shadow-lg px-4 py-3 text-center">
+                          <i className="fas fa-file-import text-2xl text-blue-600 mb-1"></i>
+                          <div className="text-sm font-bold text-neutral-700">Déposez vos fichiers ici</div>
+                          <div className="text-[10px] text-neutral-500">KML, KMZ, Shapefile (ZIP ou .shp/.dbf/.prj), DXF, GeoJSON, GPX, Excel, CSV, TXT</div>
+                      </div>
+                  </div>
+              )}
+
+              {/* Rapport des derniers imports */}
+              {importReports.length > 0 && (
+                  <div className="absolute bottom-12 left-2 z-40 w-80 max-h-64 overflow-auto bg-white/95 rounded-lg shadow-lg border border-neutral-300 text-xs">
+                      <div className="flex justify-between items-center px-2 py-1.5 border-b bg-neutral-50 sticky top-0">
+                          <span className="font-bold text-neutral-700"><i className="fas fa-clipboard-list text-blue-600 mr-1"></i> Rapport d'import</span>
+                          <button onClick={() => setImportReports([])} className="text-neutral-400 hover:text-neutral-600" title="Fermer"><i className="fas fa-times"></i></button>
+                      </div>
+                      {importReports.map((report, i) => (
+                          <div key={i} className="px-2 py-1.5 border-b border-neutral-100 last:border-0">
+                              <div className="flex items-center gap-1.5">
+                                  <i className={`fas ${report.error || report.loaded === 0 ? 'fa-times-circle text-red-500' : report.skipped.length > 0 || report.crsIssues.length > 0 ? 'fa-exclamation-triangle text-amber-500' : 'fa-check-circle text-green-600'}`}></i>
+                                  <span className="font-bold text-neutral-700 truncate" title={report.fileName}>{report.fileName}</span>
+                                  {!report.error && <span className="ml-auto text-neutral-500 whitespace-nowrap">{report.loaded} entité(s)</span>}
+                              </div>
+                              {report.error && <div className="text-red-600 ml-5">{report.error}</div>}
+                              {!report.error && report.loaded === 0 && <div className="text-red-600 ml-5">Aucune entité chargée, couche non ajoutée.</div>}
+                              {report.crsIssues.map((issue, j) => <div key={`crs${j}`} className="text-amber-700 ml-5"><i className="fas fa-globe mr-1"></i>{issue}</div>)}
+                              {report.skipped.map((skip, j) => <div key={`skip${j}`} className="text-neutral-500 ml-5">{skip}</div>)}
+                          </div>
+                      ))}
+                  </div>
+              )}
               {/* Floating Tools Container */}
               <div className="absolute top-2 right-2 z-30 flex flex-col items-end pointer-events-none gap-2">
                   
@@ -921,7 +1841,7 @@ const App: React.FC = () => {
                       <button 
                         onClick={() => { setShowExcelPanel(!showExcelPanel); setShowGoToPanel(false); setShowSearchPanel(false); }}
                         className="pointer-events-auto w-10 h-10 bg-white rounded-lg shadow-md border border-neutral-300 hover:bg-neutral-50 flex items-center justify-center text-neutral-700 transition-colors"
-                        title="Import Excel XY"
+                        title="Import de points (Excel, CSV, TXT)"
                       >
                           <i className="fas fa-file-excel text-lg text-green-600"></i>
                       </button>
@@ -929,7 +1849,7 @@ const App: React.FC = () => {
                       <div className={`pointer-events-auto mt-2 bg-white rounded-lg shadow-xl border border-neutral-300 p-3 w-64 transition-all duration-200 origin-top-right absolute top-full right-0 ${showExcelPanel ? 'scale-100 opacity-100' : 'scale-90 opacity-0 hidden'}`}>
                           <div className="flex justify-between items-center mb-2 border-b border-neutral-100 pb-1">
                               <div className="flex items-center gap-1">
-                                  <span className="text-xs font-bold text-neutral-700">Import Excel XY</span>
+                                  <span className="text-xs font-bold text-neutral-700">Import XY (Excel, CSV, TXT)</span>
                                   <button onClick={() => setShowExcelHelp(true)} className="text-blue-500 hover:text-blue-700 ml-1" title="Voir un exemple">
                                       <i className="fas fa-info-circle"></i>
                                   </button>
@@ -947,7 +1867,7 @@ const App: React.FC = () => {
                                   <button onClick={() => handleFileClick(excelInputRef)} className="text-xs text-blue-600 hover:underline font-medium mb-1"><i className="fas fa-folder-open mr-1"></i> Choisir un fichier</button>
                                   <div className="text-[10px] text-neutral-500 truncate px-1">{selectedExcelFile ? selectedExcelFile.name : "Aucun fichier sélectionné"}</div>
                               </div>
-                              <button onClick={processExcelFile} disabled={!selectedExcelFile} className={`w-full text-white text-xs py-1.5 rounded transition-colors flex items-center justify-center gap-1 font-medium ${selectedExcelFile ? 'bg-green-600 hover:bg-green-700' : 'bg-neutral-300 cursor-not-allowed'}`}><i className="fas fa-upload text-[10px]"></i> Charger les points</button>
+                              <button onClick={openImportWizard} disabled={!selectedExcelFile} className={`w-full text-white text-xs py-1.5 rounded transition-colors flex items-center justify-center gap-1 font-medium ${selectedExcelFile ? 'bg-green-600 hover:bg-green-700' : 'bg-neutral-300 cursor-not-allowed'}`}><i className="fas fa-upload text-[10px]"></i> Charger les points</button>
                           </div>
                       </div>
                   </div>
@@ -1059,6 +1979,7 @@ const App: React.FC = () => {
                 ref={mapComponentRef} 
                 mapType={mapType}
                 selectedZone={selectedZone}
+                showGrid={showGrid}
                 onMouseMove={(x, y) => setMouseCoords({x, y})}
                 onManualFeaturesChange={(features) => setManualFeatures(features)}
                 onSelectionComplete={(data) => {
@@ -1092,13 +2013,43 @@ const App: React.FC = () => {
                                   <input type="checkbox" checked={mapType === 'hybrid'} onChange={() => setMapType('hybrid')} className="cursor-pointer" />
                                   <span className="text-neutral-700">Etiquettes</span>
                               </div>
+                              <div className="flex items-center gap-2 mt-1">
+                                  <input type="checkbox" checked={showGrid} onChange={() => setShowGrid(prev => !prev)} className="cursor-pointer" />
+                                  <span className="text-neutral-700">{selectedZone === 'EPSG:4326' ? 'Graticule (WGS 84)' : 'Quadrillage Lambert'}</span>
+                              </div>
                           </div>
                           {layers.map((layer) => (
-                              <div key={layer.id} className="flex items-center gap-2">
-                                  <input type="checkbox" checked readOnly className="cursor-pointer accent-blue-600" />
-                                  <span className={`truncate cursor-pointer ${selectedLayerId === layer.id ? 'font-bold text-blue-700' : ''}`} onClick={() => handleLayerSelect(layer.id)} title={layer.name}>
-                                    {layer.type}: {layer.name}
-                                  </span>
+                              <div key={layer.id}>
+                                  <div className="flex items-center gap-2">
+                                      {layer.raster
+                                          ? <input type="checkbox" checked={layer.raster.visible} onChange={() => updateRaster(layer.id, { visible: !layer.raster!.visible })} className="cursor-pointer accent-blue-600" />
+                                          : <input type="checkbox" checked readOnly className="cursor-pointer accent-blue-600" />}
+                                      <span className={`truncate cursor-pointer ${selectedLayerId === layer.id ? 'font-bold text-blue-700' : ''}`} onClick={() => handleLayerSelect(layer.id)} title={layer.name}>
+                                        {layer.type}: {layer.name}
+                                      </span>
+                                      {layer.ownStyle !== undefined && (
+                                          <button onClick={() => toggleLayerStyle(layer.id)} className={`ml-auto shrink-0 ${layer.ownStyle ? 'text-blue-600' : 'text-neutral-300 hover:text-neutral-500'}`} title={layer.ownStyle ? 'Styles du KML (cliquer pour le style simple)' : 'Style simple (cliquer pour les styles du KML)'}>
+                                              <i className="fas fa-palette text-[11px]"></i>
+                                          </button>
+                                      )}
+                                  </div>
+                                  {layer.raster && (
+                                      <div className="ml-5 mt-1 flex items-center gap-2 text-[10px] text-neutral-500">
+                                          <span>Opacité</span>
+                                          <input type="range" min={0} max={1} step={0.05} value={layer.raster.opacity} onChange={(e) => updateRaster(layer.id, { opacity: Number(e.target.value) })} className="flex-grow accent-blue-600" />
+                                          <span className="w-8 text-right font-mono">{Math.round(layer.raster.opacity * 100)}%</span>
+                                      </div>
+                                  )}
+                                  {layer.subLayers && layer.subLayers.length > 0 && (
+                                      <div className="ml-5 mt-1 border-l border-neutral-200 pl-2 space-y-0.5">
+                                          {layer.subLayers.map(sub => (
+                                              <label key={sub.name} className="flex items-center gap-2 cursor-pointer text-[11px] text-neutral-600">
+                                                  <input type="checkbox" checked={sub.visible} onChange={() => toggleSubLayer(layer.id, sub.name)} className="cursor-pointer accent-amber-500" />
+                                                  <span className="truncate" title={sub.name}>{sub.name}</span>
+                                              </label>
+                                          ))}
+                                      </div>
+                                  )}
                               </div>
                           ))}
                       </div>
@@ -1163,6 +2114,81 @@ const App: React.FC = () => {
               </div>
           </div>
       )}
+
+      {showGeoref && (
+          <GeorefPanel
+              zones={ZONES}
+              initialZone={selectedZone}
+              onStartMapPick={(onPick) => mapComponentRef.current?.startMapPick(onPick)}
+              onCancelMapPick={() => mapComponentRef.current?.cancelMapPick()}
+              onOverlayChange={(image, points) => mapComponentRef.current?.setGeorefOverlay(image, points)}
+              onExport={exportGeorefPlan}
+              onClose={() => setShowGeoref(false)}
+          />
+      )}
+
+      {importSource && (
+          <ImportWizard
+              source={importSource}
+              zones={ZONES}
+              initialZone={selectedZone}
+              onImport={importTablePoints}
+              onClose={() => setImportSource(null)}
+          />
+      )}
+
+      {/* WKT / EWKT pasted as drawings */}
+      {wktInput && (
+          <div className="fixed inset-0 z-[100] bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm" onClick={() => setWktInput(null)}>
+              <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg p-4 space-y-3" onClick={e => e.stopPropagation()}>
+                  <div className="flex justify-between items-center border-b pb-2">
+                      <h3 className="font-bold text-neutral-700 text-sm"><i className="fas fa-paste text-slate-600 mr-1"></i> Coller du WKT / EWKT</h3>
+                      <button onClick={() => setWktInput(null)} className="text-neutral-400 hover:text-neutral-600"><i className="fas fa-times"></i></button>
+                  </div>
+                  <textarea
+                      value={wktInput.text}
+                      onChange={(e) => setWktInput({ ...wktInput, text: e.target.value, error: undefined })}
+                      placeholder={'POLYGON((400000 300000, 400100 300000, 400100 300100, 400000 300000))\nSRID=4326;POINT(-7.59 33.57)'}
+                      className="w-full h-40 text-[11px] font-mono border border-neutral-300 rounded p-2 focus:outline-none focus:border-blue-400"
+                      autoFocus
+                  />
+                  <div className="text-[11px] text-neutral-500">
+                      POINT, LINESTRING, POLYGON, MULTI* et GEOMETRYCOLLECTION, une géométrie par ligne. Le préfixe <span className="font-mono">SRID=…;</span> d'un EWKT prime sur la zone source.
+                  </div>
+                  <div>
+                      <label className="block text-[10px] text-neutral-500 mb-0.5">Zone source</label>
+                      <select value={wktInput.zone} onChange={(e) => setWktInput({ ...wktInput, zone: e.target.value, error: undefined })} className="w-full text-xs border border-neutral-300 rounded p-1.5 bg-neutral-50 focus:outline-none focus:border-blue-400">
+                          {ZONES.map(z => <option key={z.code} value={z.code}>{z.label}</option>)}
+                      </select>
+                  </div>
+                  {wktInput.error && <div className="text-[11px] text-red-600 break-all"><i className="fas fa-exclamation-triangle mr-1"></i>{wktInput.error}</div>}
+                  <button onClick={addPastedWKT} disabled={!wktInput.text.trim()} className={`w-full text-white text-xs py-1.5 rounded font-bold flex items-center justify-center gap-1 ${wktInput.text.trim() ? 'bg-green-600 hover:bg-green-700' : 'bg-neutral-300 cursor-not-allowed'}`}>
+                      <i className="fas fa-plus text-[10px]"></i> Ajouter aux dessins
+                  </button>
+              </div>
+          </div>
+      )}
+
+      {/* Source zone of a GeoJSON without crs member */}
+      {pendingGeoJSON && (
+          <div className="fixed inset-0 z-[100] bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm" onClick={() => setPendingGeoJSON(null)}>
+              <div className="bg-white rounded-lg shadow-2xl w-80 p-4 space-y-3" onClick={e => e.stopPropagation()}>
+                  <div className="flex justify-between items-center border-b pb-2">
+                      <h3 className="font-bold text-neutral-700 text-sm">Projection du GeoJSON</h3>
+                      <button onClick={() => setPendingGeoJSON(null)} className="text-neutral-400 hover:text-neutral-600"><i className="fas fa-times"></i></button>
+                  </div>
+                  <div className="text-[11px] text-neutral-500">
+                      <span className="font-bold text-neutral-700">{pendingGeoJSON.file.name}</span> ne déclare pas de système de coordonnées et ses coordonnées ne sont pas en degrés. Choisissez la zone source :
+                  </div>
+                  <select value={pendingGeoJSON.zone} onChange={(e) => setPendingGeoJSON({ ...pendingGeoJSON, zone: e.target.value })} className="w-full text-xs border border-neutral-300 rounded p-1.5 bg-neutral-50 focus:outline-none focus:border-blue-400">
+                      {ZONES.map(z => <option key={z.code} value={z.code}>{z.label}</option>)}
+                  </select>
+                  <button onClick={confirmGeoJSONZone} className="w-full bg-green-600 hover:bg-green-700 text-white text-xs py-1.5 rounded font-bold flex items-center justify-center gap-1">
+                      <i className="fas fa-upload text-[10px]"></i> Charger
+                  </button>
+              </div>
+          </div>
+      )}
     </div>
   );
 };
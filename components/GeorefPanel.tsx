@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ControlPoint, TransformKind, TRANSFORM_KINDS, WarpedImage, fitTransform, isPlaced, loadPlanImage, warpImage } from '../services/georefService';
+import { projectFromZone, projectToZone } from '../services/geoService';
+import { parseCoordinateValue } from '../services/tableService';
+import { GeorefOverlay } from './MapComponent';
+
+interface GeorefPanelProps {
+  zones: Array<{ code: string, label: string }>;
+  initialZone: string;
+  onStartMapPick: (onPick: (lon: number, lat: number) => void) => void;
+  onCancelMapPick: () => void;
+  onOverlayChange: (image: GeorefOverlay | null, points: Array<{ label: string, lon: number, lat: number }>) => void;
+  onExport: (warped: WarpedImage, zoneCode: string, planName: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Map preview is resampled coarser than the export
+const PREVIEW_PIXELS = 1500000;
+const EXPORT_PIXELS = 25000000;
+
+// Géoréférencement d'un plan scanné: points d'appui image <-> carte, transformation et résidus
+const GeorefPanel: React.FC<GeorefPanelProps> = ({ zones, initialZone, onStartMapPick, onCancelMapPick, onOverlayChange, onExport, onClose }) => {
+  const [planFile, setPlanFile] = useState<File | null>(null);
+  const [plan, setPlan] = useState<{ canvas: HTMLCanvasElement, url: string, pageCount: number } | null>(null);
+  const [page, setPage] = useState(1);
+  const [points, setPoints] = useState<ControlPoint[]>([]);
+  const [zone, setZone] = useState(initialZone === 'EPSG:4326' ? 'EPSG:26191' : initialZone);
+  const [kind, setKind] = useState<TransformKind>('affine');
+  const [opacity, setOpacity] = useState(0.7);
+  const [zoom, setZoom] = useState(1);
+  const [pickingId, setPickingId] = useState<string | null>(null); // Point waiting for its map click
+  const [preview, setPreview] = useState<{ url: string, extent: number[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const counterRef = useRef(0);
+  const viewerRef = useRef<HTMLDivElement>(null);
+
+  const fit = useMemo(() => fitTransform(points, kind), [points, kind]);
+  const minPoints = TRANSFORM_KINDS.find(k => k.value === kind)!.minPoints;
+  const placed = points.filter(isPlaced).length;
+  const unit = zone === 'EPSG:4326' ? '°' : 'm';
+
+  const loadPlan = async (file: File, pageNumber: number) => {
+    setBusy(true);
+    try {
+      const { canvas, pageCount } = await loadPlanImage(file, pageNumber);
+      const blob: Blob = await new Promise(resolve => canvas.toBlob(b => resolve(b!), 'image/jpeg', 0.9));
+      setPlan(prev => {
+        if (prev) URL.revokeObjectURL(prev.url);
+        return { canvas, url: URL.createObjectURL(blob), pageCount };
+      });
+      setPoints([]);
+      setPickingId(null);
+      onCancelMapPick();
+      setZoom(Math.min(1, (viewerRef.current?.clientWidth || 380) / canvas.width));
+    } catch (err) {
+      console.error(err);
+      alert("Impossible de lire le plan (JPG, PNG ou PDF).");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Carte: aperçu rééchantillonné à chaque changement des points ou de la transformation
+  useEffect(() => {
+    if (!plan || !fit) {
+      setPreview(null);
+      return;
+    }
+    const warped = warpImage(plan.canvas, fit, PREVIEW_PIXELS);
+    if (!warped) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    warped.canvas.toBlob(blob => {
+      if (!cancelled && blob) setPreview({ url: URL.createObjectURL(blob), extent: warped.extent });
+    }, 'image/png');
+    return () => { cancelled = true; };
+  }, [plan, fit]);
+
+  useEffect(() => () => { if (preview) URL.revokeObjectURL(preview.url); }, [preview]);
+
+  useEffect(() => {
+    const mapPoints = points.flatMap((p, i) => {
+      const lonLat = p.map ? projectFromZone(p.map[0], p.map[1], zone) : null;
+      return lonLat ? [{ label: String(i + 1), lon: lonLat[0], lat: lonLat[1] }] : [];
+    });
+    onOverlayChange(preview ? { url: preview.url, extent: preview.extent, projection: zone, opacity } : null, mapPoints);
+  }, [preview, opacity, points, zone]);
+
+  // Panel closed: overlay and pending map click removed
+  useEffect(() => () => {
+    onCancelMapPick();
+    onOverlayChange(null, []);
+  }, []);
+
+  const pickOnMap = (id: string) => {
+    setPickingId(id);
+    onStartMapPick((lon, lat) => {
+      setPickingId(null);
+      const proj = projectToZone(lon, lat, zone);
+      if (!proj) {
+        alert("Point hors de la zone choisie.");
+        return;
+      }
+      setPoints(prev => prev.map(p => p.id === id ? { ...p, map: [proj.x, proj.y] } : p));
+    });
+  };
+
+  const addImagePoint = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!plan) return;
+    const img = e.currentTarget;
+    const col = e.nativeEvent.offsetX * plan.canvas.width / img.clientWidth;
+    const row = e.nativeEvent.offsetY * plan.canvas.height / img.clientHeight;
+    const id = `gcp_${++counterRef.current}`;
+    setPoints(prev => [...prev, { id, pixel: [col, row], map: null, enabled: true }]);
+    pickOnMap(id);
+  };
+
+  const setMapValue = (id: string, axis: 0 | 1, text: string) => {
+    const value = parseCoordinateValue(text);
+    if (pickingId === id) {
+      setPickingId(null);
+      onCancelMapPick();
+    }
+    setPoints(prev => prev.map(p => {
+      if (p.id !== id) return p;
+      const map = p.map ? [...p.map] : [NaN, NaN];
+      map[axis] = value;
+      return { ...p, map: map.some(v => !isNaN(v)) ? map : null };
+    }));
+  };
+
+  const removePoint = (id: string) => {
+    if (pickingId === id) {
+      setPickingId(null);
+      onCancelMapPick();
+    }
+    setPoints(prev => prev.filter(p => p.id !== id));
+  };
+
+  const runExport = async () => {
+    if (!plan || !fit || !planFile) return;
+    setBusy(true);
+    // Laisse l'interface afficher l'état avant le rééchantillonnage complet
+    await new Promise(resolve => setTimeout(resolve, 50));
+    try {
+      const warped = warpImage(plan.canvas, fit, EXPORT_PIXELS);
+      if (!warped) throw new Error('transformation invalide');
+      await onExport(warped, zone, planFile.name.replace(/\.[^.]*$/, ''));
+    } catch (err) {
+      console.error(err);
+      alert("Erreur lors de l'export du plan géoréférencé.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed right-2 top-16 z-[60] w-[440px] max-w-[calc(100vw-1rem)] max-h-[calc(100vh-5rem)] flex flex-col bg-white rounded-lg shadow-2xl border border-neutral-300 text-xs">
+      <div className="flex justify-between items-center p-2 border-b bg-neutral-50 rounded-t-lg">
+        <h3 className="font-bold text-neutral-700 text-sm"><i className="fas fa-map-pin text-red-600 mr-1"></i> Géoréférencement d'un plan</h3>
+        <button onClick={onClose} className="text-neutral-400 hover:text-neutral-600"><i className="fas fa-times"></i></button>
+      </div>
+
+      <div className="p-2 grid grid-cols-2 gap-2 border-b">
+        <div className="col-span-2 flex items-center gap-2">
+          <label className="px-2 py-1 rounded border border-neutral-300 bg-white hover:bg-neutral-50 cursor-pointer whitespace-nowrap">
+            <i className="fas fa-folder-open mr-1 text-blue-600"></i> Plan (JPG, PNG, PDF)
+            <input type="file" accept=".jpg,.jpeg,.png,.pdf" className="hidden" onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (!file) return;
+              setPlanFile(file);
+              setPage(1);
+              loadPlan(file, 1);
+            }} />
+          </label>
+          <span className="truncate text-neutral-500" title={planFile?.name}>{planFile ? planFile.name : 'Aucun plan chargé'}</span>
+          {plan && plan.pageCount > 1 && planFile && (
+            <select value={page} onChange={(e) => { const p = parseInt(e.target.value, 10); setPage(p); loadPlan(planFile, p); }} className="ml-auto border border-neutral-300 rounded p-1 bg-white">
+              {Array.from({ length: plan.pageCount }, (_, i) => <option key={i} value={i + 1}>Page {i + 1}</option>)}
+            </select>
+          )}
+        </div>
+        <div>
+          <label className="block text-[10px] text-neutral-500 mb-0.5">Projection (Zone)</label>
+          <select value={zone} onChange={(e) => { setZone(e.target.value); setPoints(prev => prev.map(p => ({ ...p, map: null }))); }} className="w-full border border-neutral-300 rounded p-1 bg-white">
+            {zones.map(z => <option key={z.code} value={z.code}>{z.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-neutral-500 mb-0.5">Transformation</label>
+          <select value={kind} onChange={(e) => setKind(e.target.value as TransformKind)} className="w-full border border-neutral-300 rounded p-1 bg-white">
+            {TRANSFORM_KINDS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {/* Plan: un clic ajoute un point d'appui */}
+      <div className="relative border-b">
+        <div ref={viewerRef} className="h-56 overflow-auto bg-neutral-200">
+          {plan ? (
+            <div className="relative inline-block" style={{ width: plan.canvas.width * zoom }}>
+              <img src={plan.url} onClick={addImagePoint} className="block w-full cursor-crosshair select-none" draggable={false} alt="" />
+              {points.map((p, i) => (
+                <span key={p.id} className={`absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 text-[8px] font-bold flex items-center justify-center pointer-events-none ${p.id === pickingId ? 'border-amber-500 bg-amber-200 text-amber-900' : 'border-red-600 bg-white/80 text-red-700'}`}
+                  style={{ left: `${p.pixel[0] / plan.canvas.width * 100}%`, top: `${p.pixel[1] / plan.canvas.height * 100}%` }}>{i + 1}</span>
+              ))}
+            </div>
+          ) : (
+            <div className="h-full flex items-center justify-center text-neutral-500">{busy ? 'Chargement…' : 'Chargez un plan scanné'}</div>
+          )}
+        </div>
+        {plan && (
+          <div className="absolute top-1 right-1 flex flex-col gap-1">
+            <button onClick={() => setZoom(z => z * 1.5)} className="w-6 h-6 bg-white rounded shadow border border-neutral-300" title="Zoom +"><i className="fas fa-plus text-[10px]"></i></button>
+            <button onClick={() => setZoom(z => z / 1.5)} className="w-6 h-6 bg-white rounded shadow border border-neutral-300" title="Zoom -"><i className="fas fa-minus text-[10px]"></i></button>
+          </div>
+        )}
+      </div>
+
+      <div className="px-2 py-1 text-[10px] text-neutral-500 border-b">
+        {pickingId
+          ? <span className="text-amber-700 font-bold"><i className="fas fa-crosshairs mr-1"></i>Cliquez le point {points.findIndex(p => p.id === pickingId) + 1} sur la carte, ou saisissez X / Y</span>
+          : `Cliquez sur le plan pour ajouter un point d'appui (${minPoints} minimum pour cette transformation).`}
+      </div>
+
+      {/* Points d'appui et résidus */}
+      <div className="overflow-auto flex-1 min-h-[80px]">
+        <table className="w-full">
+          <thead className="bg-neutral-100 sticky top-0">
+            <tr className="text-[10px] text-neutral-500">
+              <th className="p-1"></th><th className="p-1">N°</th><th className="p-1 text-left">X ({unit})</th><th className="p-1 text-left">Y ({unit})</th><th className="p-1 text-right">Résidu</th><th className="p-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {points.map((p, i) => {
+              const residual = fit?.residuals[p.id];
+              return (
+                <tr key={p.id} className={`border-t border-neutral-100 ${p.enabled ? '' : 'opacity-50'}`}>
+                  <td className="p-1 text-center"><input type="checkbox" checked={p.enabled} onChange={() => setPoints(prev => prev.map(q => q.id === p.id ? { ...q, enabled: !q.enabled } : q))} title="Utiliser ce point" /></td>
+                  <td className="p-1 text-center font-bold text-red-700" title={`Colonne ${p.pixel[0].toFixed(1)}, ligne ${p.pixel[1].toFixed(1)}`}>{i + 1}</td>
+                  {[0, 1].map(axis => (
+                    <td key={axis} className="p-1">
+                      <input key={`${p.id}_${axis}_${p.map ? p.map[axis] : ''}`} defaultValue={p.map && !isNaN(p.map[axis]) ? p.map[axis].toFixed(zone === 'EPSG:4326' ? 7 : 2) : ''}
+                        onBlur={(e) => setMapValue(p.id, axis as 0 | 1, e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                        className="w-full border border-neutral-300 rounded px-1 py-0.5 font-mono text-[10px]" placeholder={axis === 0 ? 'X' : 'Y'} />
+                    </td>
+                  ))}
+                  <td className={`p-1 text-right font-mono ${residual && fit && residual[2] > 2 * fit.rmse && points.length > minPoints ? 'text-red-600 font-bold' : 'text-neutral-600'}`}
+                    title={residual ? `dX ${residual[0].toFixed(3)}, dY ${residual[1].toFixed(3)}` : undefined}>
+                    {residual ? residual[2].toFixed(zone === 'EPSG:4326' ? 7 : 3) : '—'}
+                  </td>
+                  <td className="p-1 whitespace-nowrap">
+                    <button onClick={() => pickOnMap(p.id)} className={`px-1 ${p.id === pickingId ? 'text-amber-600' : 'text-blue-600 hover:text-blue-800'}`} title="Pointer sur la carte"><i className="fas fa-crosshairs"></i></button>
+                    <button onClick={() => removePoint(p.id)} className="px-1 text-neutral-400 hover:text-red-600" title="Supprimer"><i className="fas fa-trash"></i></button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-2 border-t space-y-2 bg-neutral-50 rounded-b-lg">
+        <div className="flex items-center justify-between">
+          <span className={fit ? 'text-green-700 font-bold' : 'text-neutral-500'}>
+            {fit ? `EMQ : ${fit.rmse.toFixed(zone === 'EPSG:4326' ? 7 : 3)} ${unit} (${placed} points)` : `${placed} / ${minPoints} points placés`}
+          </span>
+          <label className="flex items-center gap-1 text-neutral-600">
+            Opacité
+            <input type="range" min={0} max={1} step={0.05} value={opacity} onChange={(e) => setOpacity(parseFloat(e.target.value))} className="w-24" />
+          </label>
+        </div>
+        <button onClick={runExport} disabled={!fit || busy} className={`w-full py-1.5 rounded text-white font-bold flex items-center justify-center gap-1 ${fit && !busy ? 'bg-green-600 hover:bg-green-700' : 'bg-neutral-300 cursor-not-allowed'}`}>
+          <i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-file-export'} text-[10px]`}></i> {busy ? 'Traitement…' : 'Exporter GeoTIFF (.tif, .tfw, .prj)'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GeorefPanel;
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import {
+  TableSource, TablePoint, CodedShape, ColumnMapping, ColumnRole, RejectedRow, COLUMN_ROLES, DELIMITERS, TABLE_LAYOUTS,
+  getTableRows, hasHeaderRow, guessMapping, mapTableRows, buildCodedShapes, parseCodeList
+} from '../services/tableService';
+
+export interface ImportBatch {
+  sheet?: string;        // Workbook sheet name
+  points: TablePoint[];
+  shapes: CodedShape[];  // Lines / polygons built from the point codes
+}
+
+interface ImportWizardProps {
+  source: TableSource;
+  zones: Array<{ code: string, label: string }>;
+  initialZone: string;
+  onImport: (batches: ImportBatch[], zoneCode: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+// Import des points: aperçu, choix du séparateur, association des colonnes et rapport des lignes rejetées
+const ImportWizard: React.FC<ImportWizardProps> = ({ source, zones, initialZone, onImport, onClose }) => {
+  const sheets = source.kind === 'workbook' ? source.sheets : [];
+  const [delimiter, setDelimiter] = useState('auto');
+  const [sheetIndex, setSheetIndex] = useState(0);                        // Sheet shown in the preview
+  const [checkedSheets, setCheckedSheets] = useState<number[]>([0]);      // Sheets to import (same columns)
+  const rows = useMemo(() => getTableRows(source, delimiter, sheetIndex), [source, delimiter, sheetIndex]);
+  const [header, setHeader] = useState(() => hasHeaderRow(rows));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(rows, hasHeaderRow(rows)));
+  const [zone, setZone] = useState(initialZone);
+  const [linkCodes, setLinkCodes] = useState(false);
+  const [closedCodes, setClosedCodes] = useState('BOR');
+  const [report, setReport] = useState<{ imported: number, shapes: number, rejected: RejectedRow[] } | null>(null);
+
+  const nonEmpty = rows.filter(r => r.some(c => c !== ''));
+  const preview = nonEmpty.slice(0, PREVIEW_ROWS + (header ? 1 : 0));
+  const columnCount = Math.max(0, ...nonEmpty.slice(0, 50).map(r => r.length));
+  const headerCells = header ? nonEmpty[0] || [] : [];
+
+  const resetGuess = (next: string[][]) => {
+    setHeader(hasHeaderRow(next));
+    setMapping(guessMapping(next, hasHeaderRow(next)));
+    setReport(null);
+  };
+
+  const changeDelimiter = (value: string) => {
+    setDelimiter(value);
+    resetGuess(getTableRows(source, value));
+  };
+
+  const showSheet = (index: number) => {
+    setSheetIndex(index);
+    if (!checkedSheets.includes(index)) setCheckedSheets([...checkedSheets, index].sort((a, b) => a - b));
+    resetGuess(getTableRows(source, delimiter, index));
+  };
+
+  const toggleSheet = (index: number) => {
+    setCheckedSheets(checkedSheets.includes(index) ? checkedSheets.filter(i => i !== index) : [...checkedSheets, index].sort((a, b) => a - b));
+    setReport(null);
+  };
+
+  const roleOfColumn = (col: number) => COLUMN_ROLES.find(r => mapping[r.role] === col)?.role || '';
+
+  const setColumnRole = (col: number, role: ColumnRole | '') => {
+    const next = { ...mapping };
+    COLUMN_ROLES.forEach(r => { if (next[r.role] === col) next[r.role] = -1; });
+    if (role) next[role] = col;
+    setMapping(next);
+    setReport(null);
+  };
+
+  const runImport = () => {
+    const batches: ImportBatch[] = [];
+    const rejected: RejectedRow[] = [];
+    const indexes = source.kind === 'workbook' ? checkedSheets : [0];
+    indexes.forEach(index => {
+      const sheet = source.kind === 'workbook' ? sheets[index].name : undefined;
+      const result = mapTableRows(getTableRows(source, delimiter, index), mapping, header, zone);
+      const shapes = linkCodes ? buildCodedShapes(result.points, parseCodeList(closedCodes)) : [];
+      if (result.points.length > 0) batches.push({ sheet, points: result.points, shapes });
+      rejected.push(...result.rejected.map(r => ({ ...r, sheet })));
+    });
+    const imported = batches.reduce((n, b) => n + b.points.length, 0);
+    const shapes = batches.reduce((n, b) => n + b.shapes.length, 0);
+    if (imported > 0) onImport(batches, zone);
+    if (rejected.length === 0 && imported > 0) {
+      onClose();
+      return;
+    }
+    setReport({ imported, shapes, rejected });
+  };
+
+  const canImport = mapping.x >= 0 && mapping.y >= 0 && mapping.x !== mapping.y && (source.kind === 'text' || checkedSheets.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col text-xs" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-3 border-b">
+          <h3 className="font-bold text-neutral-700 text-sm"><i className="fas fa-file-import text-green-600 mr-1"></i> Import de points — {source.name}</h3>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-600"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="p-3 grid grid-cols-2 md:grid-cols-4 gap-2 border-b bg-neutral-50">
+          <div>
+            <label className="block text-[10px] text-neutral-500 mb-0.5">Séparateur</label>
+            <select value={delimiter} onChange={(e) => changeDelimiter(e.target.value)} disabled={source.kind === 'workbook'} className="w-full border border-neutral-300 rounded p-1 bg-white disabled:bg-neutral-100">
+              {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] text-neutral-500 mb-0.5">Format</label>
+            <select value="" onChange={(e) => { const layout = TABLE_LAYOUTS.find(l => l.value === e.target.value); if (layout) { setMapping({ ...layout.mapping }); setReport(null); } }} className="w-full border border-neutral-300 rounded p-1 bg-white">
+              <option value="">Personnalisé…</option>
+              {TABLE_LAYOUTS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] text-neutral-500 mb-0.5">Projection (Zone)</label>
+            <select value={zone} onChange={(e) => { setZone(e.target.value); setReport(null); }} className="w-full border border-neutral-300 rounded p-1 bg-white">
+              {zones.map(z => <option key={z.code} value={z.code}>{z.label}</option>)}
+            </select>
+          </div>
+          <label className="flex items-end gap-1.5 pb-1 cursor-pointer text-neutral-700">
+            <input type="checkbox" checked={header} onChange={(e) => { setHeader(e.target.checked); setReport(null); }} />
+            1<sup>re</sup> ligne = en-têtes
+          </label>
+        </div>
+
+        {/* Relier les points de même code (ordre des matricules) */}
+        <div className="px-3 py-2 border-b flex flex-wrap items-center gap-3">
+          <label className={`flex items-center gap-1.5 cursor-pointer ${mapping.code >= 0 ? 'text-neutral-700' : 'text-neutral-400'}`}>
+            <input type="checkbox" checked={linkCodes && mapping.code >= 0} disabled={mapping.code < 0} onChange={(e) => { setLinkCodes(e.target.checked); setReport(null); }} />
+            Relier les points de même code (lignes)
+          </label>
+          {linkCodes && mapping.code >= 0 && (
+            <label className="flex items-center gap-1.5 text-neutral-700">
+              Codes fermés (polygones):
+              <input type="text" value={closedCodes} onChange={(e) => { setClosedCodes(e.target.value); setReport(null); }} placeholder="BOR, LIM" className="border border-neutral-300 rounded p-1 w-32 font-mono uppercase" />
+            </label>
+          )}
+        </div>
+
+        {/* Feuilles du classeur: cocher pour importer, cliquer pour l'aperçu */}
+        {sheets.length > 1 && (
+          <div className="px-3 pt-2 flex flex-wrap gap-1">
+            {sheets.map((sheet, index) => (
+              <div key={sheet.name} className={`flex items-center gap-1 px-2 py-1 rounded border ${index === sheetIndex ? 'border-green-500 bg-green-50' : 'border-neutral-300 bg-white'}`}>
+                <input type="checkbox" checked={checkedSheets.includes(index)} onChange={() => toggleSheet(index)} title="Importer cette feuille" />
+                <button onClick={() => showSheet(index)} className={index === sheetIndex ? 'font-bold text-green-800' : 'text-neutral-600'}>{sheet.name}</button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Aperçu avec le rôle de chaque colonne */}
+        <div className="overflow-auto p-3">
+          <table className="border-collapse w-full">
+            <thead>
+              <tr>
+                {Array.from({ length: columnCount }, (_, col) => (
+                  <th key={col} className="p-1 border border-neutral-200 bg-neutral-100 min-w-[90px]">
+                    <select value={roleOfColumn(col)} onChange={(e) => setColumnRole(col, e.target.value as ColumnRole | '')} className={`w-full border rounded p-0.5 font-bold ${roleOfColumn(col) ? 'border-green-500 bg-green-50 text-green-800' : 'border-neutral-300 bg-white text-neutral-400'}`}>
+                      <option value="">— Attribut —</option>
+                      {COLUMN_ROLES.map(r => <option key={r.role} value={r.role}>{r.label}</option>)}
+                    </select>
+                    {header && <div className="text-[10px] text-neutral-500 font-normal truncate mt-0.5">{headerCells[col]}</div>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.slice(header ? 1 : 0).map((row, i) => (
+                <tr key={i}>
+                  {Array.from({ length: columnCount }, (_, col) => (
+                    <td key={col} className={`p-1 border border-neutral-200 font-mono truncate max-w-[140px] ${roleOfColumn(col) ? 'text-neutral-800' : 'text-neutral-400'}`}>{row[col] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-[10px] text-neutral-500 mt-1">{nonEmpty.length - (header ? 1 : 0)} ligne(s) de données</div>
+        </div>
+
+        {/* Rapport des lignes rejetées */}
+        {report && (
+          <div className="mx-3 mb-3 border border-amber-300 bg-amber-50 rounded p-2 max-h-48 overflow-auto">
+            <div className="font-bold text-amber-800 mb-1">
+              {report.imported} point(s) importé(s){report.shapes > 0 ? `, ${report.shapes} ligne(s) / polygone(s) par code` : ''}, {report.rejected.length} ligne(s) rejetée(s)
+            </div>
+            <table className="w-full">
+              <tbody>
+                {report.rejected.map(r => (
+                  <tr key={`${r.sheet}_${r.row}`} className="border-t border-amber-200">
+                    <td className="pr-2 font-mono text-amber-900 whitespace-nowrap">{r.sheet ? `${r.sheet} · ` : ''}Ligne {r.row}</td>
+                    <td className="pr-2 text-amber-900">{r.reason}</td>
+                    <td className="font-mono text-neutral-500 truncate max-w-[260px]">{r.values.join(' | ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="p-3 border-t flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 rounded border border-neutral-300 hover:bg-neutral-100">{report ? 'Fermer' : 'Annuler'}</button>
+          <button onClick={runImport} disabled={!canImport || (report !== null && report.imported > 0)} className={`px-3 py-1.5 rounded text-white font-bold flex items-center gap-1 ${canImport && !(report && report.imported > 0) ? 'bg-green-600 hover:bg-green-700' : 'bg-neutral-300 cursor-not-allowed'}`}>
+            <i className="fas fa-upload text-[10px]"></i> Importer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -3,9 +3,11 @@ import Map from 'ol/Map';
 import View from 'ol/View';
 import TileLayer from 'ol/layer/Tile';
 import VectorLayer from 'ol/layer/Vector';
+import ImageLayer from 'ol/layer/Image';
+import ImageStatic from 'ol/source/ImageStatic';
 import VectorSource from 'ol/source/Vector';
 import XYZ from 'ol/source/XYZ';
-import { fromLonLat, toLonLat } from 'ol/proj';
+import { fromLonLat, toLonLat, transform, transformExtent } from 'ol/proj';
 import Draw, { createBox } from 'ol/interaction/Draw';
 import Modify from 'ol/interaction/Modify';
 import Select from 'ol/interaction/Select';
@@ -17,16 +19,37 @@ import Overlay from 'ol/Overlay';
 import { getArea, getLength } from 'ol/sphere';
 import KML from 'ol/format/KML';
 import GeoJSON from 'ol/format/GeoJSON';
+import GPX from 'ol/format/GPX';
 import Polygon from 'ol/geom/Polygon';
 import MultiPolygon from 'ol/geom/MultiPolygon';
 import LineString from 'ol/geom/LineString';
 import Point from 'ol/geom/Point';
 import MultiPoint from 'ol/geom/MultiPoint';
+import MultiLineString from 'ol/geom/MultiLineString';
+import GeometryCollection from 'ol/geom/GeometryCollection';
+import Geometry from 'ol/geom/Geometry';
 import Feature from 'ol/Feature';
+import { createEmpty, extend, isEmpty } from 'ol/extent';
+import { fromExtent } from 'ol/geom/Polygon';
+import { register } from 'ol/proj/proj4';
 import proj4 from 'proj4'; 
-import { convertToWGS84, calculateScale, getResolutionFromScale, projectFromZone, projectToZone, formatArea, fetchElevation, createPointDXF, createPointText, createPointKML } from '../services/geoService';
+import { readDXFFeatures } from '../services/dxfService';
+import { CodedShape } from '../services/tableService';
+import { markKmlFolders, hasKmlStyles, KML_FOLDER_KEY } from '../services/kmlService';
+import { ImportResult, createImportResult } from '../services/importService';
+import { readGeoRaster } from '../services/rasterService';
+import { readWKT, writeWKT } from '../services/wktService';
+import { convertToWGS84, calculateScale, getResolutionFromScale, getZoneResolutionFromScale, getGridInterval, formatGridLabel, projectFromZone, projectToZone, formatArea, fetchElevation, createPointDXF, createPointText, createPointKML, detectGeoJSONZone, createGeoJSONCrs, detectPrjZone, hasLonLatCoordinates } from '../services/geoService';
 import { unByKey } from 'ol/Observable';
 
+// تسجيل نطاقات لامبير لدى OpenLayers (خريطة التصدير)
+register(proj4);
+
+// Export tiles are rendered (and written to the GeoTIFF) at this size
+const EXPORT_TILE_SIZE = 1024;
+// Layer class of the base imagery and local rasters in the export map (the only layers clipped to the boundary)
+const EXPORT_BASE_CLASS = 'export-base';
+
 // تعريف المكتبات العالمية
 declare const shp: any;
 declare const JSZip: any;
@@ -54,14 +77,81 @@ interface MapComponentProps {
   onManualFeaturesChange?: (features: ManualFeatureInfo[]) => void;
   selectedZone: string;
   mapType: 'satellite' | 'hybrid';
+  showGrid?: boolean; // Coordinate grid (Lambert X/Y or WGS84 graticule), also burned into exports
+}
+
+export interface ExportGrid {
+  extent: number[]; // [minX, minY, maxX, maxY] in zoneCode, snapped to whole pixels
+  pixelSize: number;
+  width: number;
+  height: number;
+  tileSize: number;
+  zoneCode: string;
+  layerId: string;
+}
+
+export interface LayerFeatureInfo {
+  id: string;
+  properties: Record<string, any>; // Attributes (without geometry)
+  area: number;      // m² (geodesic), 0 for lines/points
+  perimeter: number; // m
+}
+
+// Drawn feature, point, measurement or imported feature in the coordinates of an export zone
+export interface VectorFeatureInfo {
+  source: 'manual' | 'points' | 'measure' | 'imported';
+  layerId?: string;    // Imported layer
+  properties?: Record<string, any>; // Attributes of an imported feature
+  geometryType: 'Point' | 'LineString' | 'Polygon';
+  parts: number[][][]; // Point: [[xy]], LineString: [coords], Polygon: rings (outer first)
+  label: string;
+  type: string;        // Polygon, Rectangle, Line, Point, Position (geolocation), Mesure longueur, Mesure surface (geometry type if imported)
+  area: number;        // m² (geodesic), 0 for lines/points
+  perimeter: number;   // m (length of a line)
+}
+
+export interface RenderExportOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+  clip?: boolean; // Mask the imagery outside the boundary polygons (default true)
+  gridInterval?: number; // Spacing of the burned-in grid (zone units), default from the pixel size
+  gridLabels?: boolean;  // Label the grid lines on the top / left edges of the export (default true)
+}
+
+export interface MapCanvasOptions extends RenderExportOptions {
+  extent?: number[];  // Fixed extent in zoneCode (e.g. a print frame) instead of the extent of the layer
+  pixelSize?: number; // Overrides the resolution derived from targetScale
+}
+
+export interface LegendItem {
+  layerId?: string; // Imported layer (label is then the layer id)
+  label: string;
+  color: string;
+  symbol: 'polygon' | 'line' | 'point' | 'dash';
 }
 
 export interface MapComponentRef {
-  getMapCanvas: (targetScale?: number, layerId?: string) => Promise<{ canvas: HTMLCanvasElement, extent: number[] } | null>;
-  loadKML: (file: File, layerId: string) => void;
-  loadShapefile: (file: File, layerId: string) => void;
-  loadDXF: (file: File, zoneCode: string, layerId: string) => void;
-  loadExcelPoints: (points: Array<{x: number, y: number, label?: string}>) => void;
+  getMapCanvas: (targetScale: number, layerId: string, zoneCode: string, options?: MapCanvasOptions) => Promise<{ canvas: HTMLCanvasElement, grid: ExportGrid } | null>;
+  getLegendItems: (extent: number[], zoneCode: string) => LegendItem[];
+  getExportGrid: (targetScale: number, layerId: string, zoneCode: string) => ExportGrid | null;
+  getLayerFeatures: (layerId: string) => LayerFeatureInfo[];
+  getVectorFeatures: (zoneCode: string) => VectorFeatureInfo[];
+  renderExportTiles: (grid: ExportGrid, onTile: (canvas: HTMLCanvasElement, col: number, row: number) => void | Promise<void>, options?: RenderExportOptions) => Promise<void>;
+  loadKML: (file: File, layerId: string) => Promise<ImportResult>;
+  loadShapefile: (file: File, layerId: string, zoneCode?: string) => Promise<ImportResult>;
+  loadDXF: (file: File, zoneCode: string, layerId: string) => Promise<ImportResult>;
+  loadGeoJSON: (file: File, layerId: string, zoneCode?: string) => Promise<ImportResult>;
+  loadGPX: (file: File, layerId: string) => Promise<ImportResult>;
+  loadRaster: (file: File, sidecars: File[], layerId: string, zoneCode: string) => Promise<ImportResult>; // GeoTIFF / image + world file
+  setRasterOpacity: (layerId: string, opacity: number) => void;
+  setRasterVisible: (layerId: string, visible: boolean) => void;
+  addWKT: (text: string, zoneCode: string) => ImportResult; // Pasted WKT / EWKT -> manual features
+  getWKT: (id: string, zoneCode: string, ewkt?: boolean) => string | null; // Drawing, feature or layer (one geometry per line)
+  getVectorGeoJSON: (zoneCode: string) => any;
+  setSubLayerVisible: (layerId: string, subLayer: string, visible: boolean) => void;
+  setLayerStyleVisible: (layerId: string, visible: boolean) => void; // Own KML styles on / off
+  loadExcelPoints: (points: Array<{x: number, y: number, z?: number, label?: string, code?: string, attributes?: Record<string, string>}>, layerId?: string) => void;
+  loadCodedShapes: (shapes: CodedShape[], layerId: string) => void;
   addManualPoint: (x: number, y: number, label: string) => void;
   setDrawTool: (type: 'Rectangle' | 'Polygon' | 'Point' | 'Line' | 'Edit' | 'Delete' | null) => void;
   setMeasureTool: (type: 'MeasureLength' | 'MeasureArea', unit: string) => void;
@@ -73,6 +163,17 @@ export interface MapComponentRef {
   locateUser: () => void;
   selectLayer: (layerId: string) => void;
   flyToLocation: (lon: number, lat: number, zoom?: number) => void;
+  startMapPick: (onPick: (lon: number, lat: number) => void) => void; // Next map click returns its WGS 84 position
+  cancelMapPick: () => void;
+  setGeorefOverlay: (image: GeorefOverlay | null, points: Array<{ label: string, lon: number, lat: number }>) => void;
+}
+
+// Warped scanned plan shown under the vector layers
+export interface GeorefOverlay {
+  url: string;
+  extent: number[];   // in projection
+  projection: string; // zone code
+  opacity: number;
 }
 
 type PopupContent = 
@@ -85,20 +186,47 @@ type PopupContent =
       z: number | '...', 
       lat: number, 
       lon: number,
-      zone: string
+      zone: string,
+      attributes?: Record<string, string> // Other columns of an imported table
     }
+  | { type: 'FEATURE', title: string, folder?: string, attributes: Record<string, string> } // Imported feature (KML, SHP...)
   | null;
 
+// Simple parts of a geometry (multi-geometries and collections are exploded)
+const explodeGeometry = (geom: Geometry): Array<Polygon | LineString | Point> => {
+  if (geom instanceof Polygon || geom instanceof LineString || geom instanceof Point) return [geom];
+  if (geom instanceof MultiPolygon) return geom.getPolygons();
+  if (geom instanceof MultiLineString) return geom.getLineStrings();
+  if (geom instanceof MultiPoint) return geom.getPoints();
+  if (geom instanceof GeometryCollection) return geom.getGeometries().flatMap(explodeGeometry);
+  return [];
+};
+
+// Colours of the vector layers (also used for the KML export)
+export const VECTOR_STYLES: Record<VectorFeatureInfo['source'], { stroke: string, width: number, fill: string, marker: string }> = {
+  manual: { stroke: '#22c55e', width: 2, fill: 'rgba(255, 255, 255, 0)', marker: '#2563eb' },
+  points: { stroke: '#2563eb', width: 2, fill: 'rgba(255, 255, 255, 0)', marker: '#2563eb' },
+  measure: { stroke: '#3b82f6', width: 2, fill: 'rgba(255, 255, 255, 0.2)', marker: '#3b82f6' },
+  imported: { stroke: '#f59e0b', width: 2.5, fill: 'rgba(245, 158, 11, 0.05)', marker: '#f59e0b' },
+};
+
 // SVG for Blue Marker
 const blueMarkerSvg = `<svg xmlns="http://www.w3.org/2000/svg" height="30" viewBox="0 0 24 24" width="30"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" fill="#2563eb" stroke="#ffffff" stroke-width="1"/></svg>`;
 
-const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelectionComplete, onMouseMove, onManualFeaturesChange, selectedZone, mapType }, ref) => {
+const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelectionComplete, onMouseMove, onManualFeaturesChange, selectedZone, mapType, showGrid = false }, ref) => {
   const mapElement = useRef<HTMLDivElement>(null);
   const mapRef = useRef<Map | null>(null);
   const sourceRef = useRef<VectorSource>(new VectorSource()); // Clip Boundary (Manual Drawing)
   const kmlSourceRef = useRef<VectorSource>(new VectorSource()); // Imported Data (Layers)
   const pointsSourceRef = useRef<VectorSource>(new VectorSource()); // Points
   const measureSourceRef = useRef<VectorSource>(new VectorSource()); // Measurements
+  const gridSourceRef = useRef<VectorSource>(new VectorSource()); // Coordinate grid (rebuilt on each move)
+  const georefSourceRef = useRef<VectorSource>(new VectorSource()); // Control points of the georeferencing tool
+  const georefLayerRef = useRef<ImageLayer<ImageStatic> | null>(null); // Warped scanned plan
+  const rasterLayersRef = useRef<Record<string, ImageLayer<ImageStatic>>>({}); // Local georeferenced rasters, by layer id
+  const mapPickRef = useRef<((lon: number, lat: number) => void) | null>(null); // One-shot map click (georeferencing)
+  const hiddenSubLayersRef = useRef<Set<string>>(new Set()); // `${layerId}/${subLayer}` of the unchecked sub-layers
+  const plainStyleLayersRef = useRef<Set<string>>(new Set()); // KML layers drawn with the imported style instead of their own
   const baseLayerRef = useRef<TileLayer<XYZ> | null>(null);
   
   // Interaction Refs
@@ -118,7 +246,10 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
   const popupRef = useRef<HTMLDivElement>(null);
   const overlayRef = useRef<Overlay | null>(null);
   const [popupContent, setPopupContent] = useState<PopupContent>(null);
+  const popupFeatureRef = useRef<Feature | null>(null); // Feature shown in the popup (copy as WKT)
+  const [wktCopied, setWktCopied] = useState(false);
   const selectedZoneRef = useRef(selectedZone); 
+  const showGridRef = useRef(showGrid);
 
   // Measurement References
   const sketchRef = useRef<any>(null);
@@ -166,8 +297,8 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
     if (type === 'Polygon' || type === 'MultiPolygon' || type === 'Circle') {
         const styles = [
             new Style({
-                stroke: new Stroke({ color: '#22c55e', width: 2 }), // Green Stroke
-                fill: new Fill({ color: 'rgba(255, 255, 255, 0)' }), // Transparent Fill
+                stroke: new Stroke({ color: VECTOR_STYLES.manual.stroke, width: VECTOR_STYLES.manual.width }), // Green Stroke
+                fill: new Fill({ color: VECTOR_STYLES.manual.fill }), // Transparent Fill
                 text: textStyle
             })
         ];
@@ -196,7 +327,7 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
 
     // LINE STYLE
     return new Style({
-        stroke: new Stroke({ color: '#22c55e', width: 2 }),
+        stroke: new Stroke({ color: VECTOR_STYLES.manual.stroke, width: VECTOR_STYLES.manual.width }),
         text: textStyle
     });
   };
@@ -230,8 +361,8 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
   };
 
   const measureStyle = new Style({
-    fill: new Fill({ color: 'rgba(255, 255, 255, 0.2)' }),
-    stroke: new Stroke({ color: '#3b82f6', width: 2, lineDash: [10, 10] }),
+    fill: new Fill({ color: VECTOR_STYLES.measure.fill }),
+    stroke: new Stroke({ color: VECTOR_STYLES.measure.stroke, width: VECTOR_STYLES.measure.width, lineDash: [10, 10] }),
     image: new CircleStyle({
       radius: 5,
       stroke: new Stroke({ color: '#3b82f6', width: 2 }),
@@ -239,6 +370,137 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
     }),
   });
 
+  // Style for imported layers (KML/SHP/DXF)
+  const importedStyle = new Style({
+    stroke: new Stroke({ color: VECTOR_STYLES.imported.stroke, width: VECTOR_STYLES.imported.width }),
+    fill: new Fill({ color: VECTOR_STYLES.imported.fill })
+  });
+
+  const importedPointStyle = new Style({
+    image: new CircleStyle({
+      radius: 3,
+      fill: new Fill({ color: VECTOR_STYLES.imported.stroke }),
+      stroke: new Stroke({ color: '#ffffff', width: 1 })
+    })
+  });
+
+  // Hidden sub-layers (DXF layers) are not drawn; DXF texts are drawn as labels
+  const isSubLayerHidden = (feature: any) => {
+    const subLayer = feature.get('subLayer');
+    return subLayer !== undefined && hiddenSubLayersRef.current.has(`${feature.get('layerId')}/${subLayer}`);
+  };
+
+  const importedStyleFunction = (feature: any) => {
+    if (isSubLayerHidden(feature)) return undefined;
+    if (feature.getGeometry()?.getType() !== 'Point') return importedStyle;
+    const text = feature.get('text');
+    if (!text) return importedPointStyle;
+    return new Style({
+      text: new Text({
+        text,
+        font: '11px Roboto, sans-serif',
+        textAlign: 'left',
+        rotation: -(feature.get('rotation') || 0) * Math.PI / 180,
+        fill: new Fill({ color: '#ffffff' }),
+        stroke: new Stroke({ color: '#000000', width: 3 }),
+      })
+    });
+  };
+
+  // Georeferencing control points: red cross with the point number
+  const georefPointStyle = (feature: any) => new Style({
+    image: new CircleStyle({ radius: 6, fill: new Fill({ color: 'rgba(220, 38, 38, 0.25)' }), stroke: new Stroke({ color: '#dc2626', width: 2 }) }),
+    text: new Text({
+      text: feature.get('label'),
+      font: 'bold 11px Roboto, sans-serif',
+      offsetX: 10,
+      textAlign: 'left',
+      fill: new Fill({ color: '#ffffff' }),
+      stroke: new Stroke({ color: '#dc2626', width: 3 }),
+    })
+  });
+
+  // Coordinate grid: light lines with a dark halo, labels where the lines enter the frame
+  const gridLineStyles = [
+    new Style({ stroke: new Stroke({ color: 'rgba(0, 0, 0, 0.35)', width: 2.5 }) }),
+    new Style({ stroke: new Stroke({ color: 'rgba(255, 255, 255, 0.85)', width: 1 }) })
+  ];
+
+  const gridStyle = (feature: any) => {
+    const label = feature.get('label');
+    if (!label) return gridLineStyles;
+    const isX = feature.get('axis') === 'x';
+    return new Style({
+      text: new Text({
+        text: label,
+        font: 'bold 10px Roboto, sans-serif',
+        textAlign: isX ? 'center' : 'left',
+        textBaseline: isX ? 'top' : 'middle',
+        offsetX: isX ? 0 : 4,
+        offsetY: isX ? 4 : 0,
+        fill: new Fill({ color: '#ffffff' }),
+        stroke: new Stroke({ color: '#000000', width: 3 }),
+      })
+    });
+  };
+
+  // Point where a polyline crosses coordinate `value` on `axis` (0 = x, 1 = y)
+  const findCrossing = (coords: number[][], axis: number, value: number): number[] | null => {
+    for (let i = 1; i < coords.length; i++) {
+      const a = coords[i - 1][axis], b = coords[i][axis];
+      if (a === b || (a - value) * (b - value) > 0) continue;
+      const t = (value - a) / (b - a);
+      return [coords[i - 1][0] + t * (coords[i][0] - coords[i - 1][0]), coords[i - 1][1] + t * (coords[i][1] - coords[i - 1][1])];
+    }
+    return null;
+  };
+
+  // Grid lines every `interval` (zone units) over `extent`, mapped by toTarget into the layer CRS.
+  // With a frame (layer CRS), X lines are labelled on its top edge and Y lines on its left edge.
+  const createGridFeatures = (extent: number[], interval: number, zoneCode: string, toTarget: (c: number[]) => number[], frame?: number[]) => {
+    const features: Feature[] = [];
+    const steps = 32; // Lambert lines are curved once reprojected to the display CRS
+    if ((extent[2] - extent[0]) / interval > 500 || (extent[3] - extent[1]) / interval > 500) return features;
+
+    const addLine = (axis: 'x' | 'y', value: number) => {
+      const coords: number[][] = [];
+      for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        coords.push(toTarget(axis === 'x'
+          ? [value, extent[1] + t * (extent[3] - extent[1])]
+          : [extent[0] + t * (extent[2] - extent[0]), value]));
+      }
+      if (!coords.every(c => isFinite(c[0]) && isFinite(c[1]))) return;
+      features.push(new Feature({ geometry: new LineString(coords), axis, value }));
+
+      if (!frame) return;
+      const anchor = axis === 'x' ? findCrossing(coords, 1, frame[3]) : findCrossing(coords, 0, frame[0]);
+      if (!anchor) return;
+      const along = axis === 'x' ? anchor[0] : anchor[1];
+      if (along < (axis === 'x' ? frame[0] : frame[1]) || along > (axis === 'x' ? frame[2] : frame[3])) return;
+      features.push(new Feature({ geometry: new Point(anchor), axis, value, label: formatGridLabel(value, axis, interval, zoneCode) }));
+    };
+
+    for (let x = Math.ceil(extent[0] / interval) * interval; x <= extent[2]; x += interval) addLine('x', x);
+    for (let y = Math.ceil(extent[1] / interval) * interval; y <= extent[3]; y += interval) addLine('y', y);
+    return features;
+  };
+
+  // Rebuild the on-screen grid for the current view and zone
+  const updateGrid = () => {
+    const map = mapRef.current;
+    gridSourceRef.current.clear();
+    if (!map || !showGridRef.current) return;
+    const size = map.getSize();
+    if (!size) return;
+    const zoneCode = selectedZoneRef.current;
+    const viewExtent = map.getView().calculateExtent(size);
+    const zoneExtent = transformExtent(viewExtent, 'EPSG:3857', zoneCode);
+    if (!zoneExtent.every(v => isFinite(v))) return;
+    const interval = getGridInterval((zoneExtent[2] - zoneExtent[0]) / size[0]);
+    gridSourceRef.current.addFeatures(createGridFeatures(zoneExtent, interval, zoneCode, c => transform(c, zoneCode, 'EPSG:3857'), viewExtent));
+  };
+
   const pointStyle = (feature: any) => {
     // Style for loaded points (Excel, etc.) - SAME AS MANUAL POINT
     return new Style({
@@ -327,23 +589,34 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
       
       const zoneCode = selectedZoneRef.current;
       const proj = projectToZone(lon, lat, zoneCode);
+      popupFeatureRef.current = feature;
+      setWktCopied(false);
       
       const zoneLabel = zoneCode === 'EPSG:4326' ? 'WGS 84' : 
                         zoneCode === 'EPSG:26191' ? 'Zone 1' :
                         zoneCode === 'EPSG:26192' ? 'Zone 2' :
                         zoneCode === 'EPSG:26194' ? 'Zone 3' : 'Zone 4';
 
+      // Imported table points: measured Z and the other columns
+      const { geometry, label: _label, type, layerId, z: measuredZ, ...others } = feature.getProperties();
+      const attributes: Record<string, string> = {};
+      Object.entries(others).forEach(([key, value]) => {
+          if (value !== undefined && value !== null && typeof value !== 'object') attributes[key] = String(value);
+      });
+
       setPopupContent({
           type: 'POINT',
           label: label,
           x: proj ? proj.x : 0,
           y: proj ? proj.y : 0,
-          z: '...',
+          z: typeof measuredZ === 'number' ? measuredZ : '...',
           lat: lat,
           lon: lon,
-          zone: zoneLabel
+          zone: zoneLabel,
+          attributes: Object.keys(attributes).length > 0 ? attributes : undefined
       });
       overlayRef.current?.setPosition(coordinate);
+      if (typeof measuredZ === 'number') return;
 
       const z = await fetchElevation(lat, lon);
       
@@ -355,6 +628,38 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
       });
   };
 
+  // Attributes of an imported feature (KML ExtendedData / SchemaData, DBF, GeoJSON properties, DXF layer)
+  const showFeaturePopup = (feature: Feature, coordinate: number[]) => {
+      const { geometry, layerId, subLayer, styleUrl, visibility, selected, name, label, Name, ...others } = feature.getProperties();
+      const attributes: Record<string, string> = {};
+      Object.entries(others).forEach(([key, value]) => {
+          if (value === undefined || value === null || value === '' || typeof value === 'object') return;
+          // KML descriptions are often HTML tables
+          attributes[key] = key === 'description' ? String(value).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() : String(value);
+      });
+      popupFeatureRef.current = feature;
+      setWktCopied(false);
+      setPopupContent({
+          type: 'FEATURE',
+          title: String(name || label || Name || 'Entité'),
+          folder: subLayer,
+          attributes
+      });
+      overlayRef.current?.setPosition(coordinate);
+  };
+
+  // Geometry of the popup feature, in the selected zone
+  const copyPopupWKT = async () => {
+      const geometry = popupFeatureRef.current?.getGeometry();
+      if (!geometry) return;
+      try {
+          await navigator.clipboard.writeText(writeWKT([geometry], selectedZoneRef.current));
+          setWktCopied(true);
+      } catch {
+          alert("Impossible d'accéder au presse-papiers.");
+      }
+  };
+
   // Download Handlers for Points
   const downloadPointDXF = () => {
       if (popupContent && popupContent.type === 'POINT') {
@@ -453,6 +758,246 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
          }
   };
 
+  // Imported features keep their layer and get a unique id (used by batch export)
+  const tagImportedFeatures = (features: Feature[], layerId: string) => {
+      features.forEach((f, index) => {
+          f.set('layerId', layerId);
+          f.setId(`${layerId}_f${index + 1}`);
+      });
+  };
+
+  const fitImportedFeatures = (features: Feature[]) => {
+      if (features.length === 0) return;
+      const extent = createEmpty();
+      features.forEach(f => extend(extent, f.getGeometry()!.getExtent()));
+      calculateExtentAndNotify(features, extent);
+  };
+
+  // KML features keep their own style (unless switched off for their layer); hidden folders stay hidden
+  const keepKmlStyle = (feature: Feature) => {
+      const kmlStyle = feature.getStyleFunction();
+      if (!kmlStyle) return;
+      feature.setStyle((feat, resolution) => {
+          if (isSubLayerHidden(feat)) return undefined;
+          return plainStyleLayersRef.current.has(feat.get('layerId')) ? importedStyleFunction(feat) : kmlStyle(feat, resolution);
+      });
+  };
+
+  // Imported layer added to the map, view fitted on it
+  const addImportedFeatures = (features: Feature[], layerId: string) => {
+      tagImportedFeatures(features, layerId);
+      kmlSourceRef.current.addFeatures(features);
+      fitImportedFeatures(features);
+  };
+
+  // Features of an imported layer: files in kmlSource, table points and GPX waypoints in pointsSource
+  const getImportedLayerFeatures = (layerId: string): Feature[] =>
+      [...kmlSourceRef.current.getFeatures(), ...pointsSourceRef.current.getFeatures()].filter(f => f.get('layerId') === layerId);
+
+  // Features used as clipping boundary for the selected layer / feature
+  const getExportFeatures = (layerId: string): Feature[] => {
+      if (layerId === 'manual') return sourceRef.current.getFeatures();
+      const manualFeat = sourceRef.current.getFeatureById(layerId) || kmlSourceRef.current.getFeatureById(layerId);
+      if (manualFeat) return [manualFeat];
+      return getImportedLayerFeatures(layerId);
+  };
+
+  // شبكة التصدير: الامتداد وحجم البكسل في النطاق المختار
+  const computeExportGrid = (targetScale: number, layerId: string, zoneCode: string): ExportGrid | null => {
+      // Raster layer: its whole footprint, reprojected
+      const raster = rasterLayersRef.current[layerId]?.getSource();
+      if (raster) {
+          const rasterExtent = transformExtent(raster.getImageExtent(), raster.getProjection()!, zoneCode);
+          return buildExportGrid(rasterExtent, getZoneResolutionFromScale(targetScale, zoneCode), zoneCode, layerId);
+      }
+
+      const features = getExportFeatures(layerId || 'manual');
+      const extent = createEmpty();
+      features.forEach(f => {
+          const geom = f.getGeometry();
+          if (geom) extend(extent, geom.clone().transform('EPSG:3857', zoneCode).getExtent());
+      });
+
+      if (features.length === 0 || isEmpty(extent)) {
+          alert("La couche sélectionnée est vide ou invalide.");
+          return null;
+      }
+
+      return buildExportGrid(extent, getZoneResolutionFromScale(targetScale, zoneCode), zoneCode, layerId);
+  };
+
+  // Grid of whole pixels anchored on the upper-left corner of the extent
+  // (an extent that is an exact multiple of the pixel size must not gain a pixel through rounding errors)
+  const buildExportGrid = (extent: number[], pixelSize: number, zoneCode: string, layerId: string): ExportGrid => {
+      const width = Math.max(1, Math.ceil((extent[2] - extent[0]) / pixelSize - 1e-6));
+      const height = Math.max(1, Math.ceil((extent[3] - extent[1]) / pixelSize - 1e-6));
+      return {
+          extent: [extent[0], extent[3] - height * pixelSize, extent[0] + width * pixelSize, extent[3]],
+          pixelSize,
+          width,
+          height,
+          tileSize: EXPORT_TILE_SIZE,
+          zoneCode,
+          layerId: layerId || 'manual'
+      };
+  };
+
+  // Vector sources of the map, in drawing order, with the style used on screen
+  const getVectorLayerDefs = () => [
+      { source: kmlSourceRef.current, style: importedStyleFunction },
+      { source: pointsSourceRef.current, style: pointStyle },
+      { source: measureSourceRef.current, style: measureStyle },
+      { source: sourceRef.current, style: manualStyleFunction },
+  ];
+
+  // Offscreen map (same base source and vector styles, view in the export CRS):
+  // the visible map is never resized and its overlays never reach the output
+  const createExportMap = (grid: ExportGrid, options: RenderExportOptions = {}) => {
+      const target = document.createElement('div');
+      target.style.cssText = `position:fixed;left:-${grid.tileSize * 2}px;top:0;width:${grid.tileSize}px;height:${grid.tileSize}px;`;
+      document.body.appendChild(target);
+
+      // Features are stored in EPSG:3857: export copies are reprojected into the export CRS
+      const vectorLayers = getVectorLayerDefs().map(def => new VectorLayer({
+          className: 'export-vector',
+          source: new VectorSource({
+              features: def.source.getFeatures().filter(f => f.getGeometry()).map(f => {
+                  const copy = f.clone();
+                  copy.getGeometry()!.transform('EPSG:3857', grid.zoneCode);
+                  return copy;
+              })
+          }),
+          style: def.style,
+      }));
+
+      // Grid straight in the export CRS, labelled on the edges of the whole export (not of each tile)
+      const gridLayers = showGridRef.current ? [new VectorLayer({
+          className: 'export-vector',
+          source: new VectorSource({
+              features: createGridFeatures(grid.extent, options.gridInterval || getGridInterval(grid.pixelSize), grid.zoneCode, c => c,
+                  options.gridLabels === false ? undefined : grid.extent)
+          }),
+          style: gridStyle,
+      })] : [];
+
+      // Own sources for the export CRS (the on-screen sources keep their EPSG:3857 reprojection)
+      const rasterLayers = Object.values<ImageLayer<ImageStatic>>(rasterLayersRef.current).filter(l => l.getVisible()).map(l => {
+          const source = l.getSource()!;
+          return new ImageLayer({
+              className: EXPORT_BASE_CLASS,
+              opacity: l.getOpacity(),
+              source: new ImageStatic({ url: source.getUrl(), imageExtent: source.getImageExtent(), projection: source.getProjection()! })
+          });
+      });
+
+      const exportMap = new Map({
+          target,
+          pixelRatio: 1,
+          controls: [],
+          interactions: [],
+          layers: [new TileLayer({ className: EXPORT_BASE_CLASS, source: baseLayerRef.current!.getSource()! }), ...rasterLayers, ...gridLayers, ...vectorLayers],
+          view: new View({ projection: grid.zoneCode, minResolution: 1e-12, maxResolution: 1e9 }),
+      });
+      exportMap.setSize([grid.tileSize, grid.tileSize]);
+      return { exportMap, target };
+  };
+
+  const traceRings = (ctx: CanvasRenderingContext2D, geom: Polygon | MultiPolygon, toPixel: (c: number[]) => number[]) => {
+      const polys = geom instanceof Polygon ? [geom.getCoordinates()] : geom.getCoordinates();
+      polys.forEach(polyCoords => {
+          polyCoords.forEach(ring => {
+              ring.forEach((coord, idx) => {
+                  const [px, py] = toPixel(coord);
+                  if (idx === 0) ctx.moveTo(px, py);
+                  else ctx.lineTo(px, py);
+              });
+              ctx.closePath();
+          });
+      });
+  };
+
+  const abortError = () => new DOMException("Export annulé", 'AbortError');
+
+  const renderExportTile = async (exportMap: Map, target: HTMLElement, grid: ExportGrid, col: number, row: number, clipGeoms: Array<Polygon | MultiPolygon>, signal?: AbortSignal) => {
+      const size = grid.tileSize;
+      const minX = grid.extent[0] + col * size * grid.pixelSize;
+      const maxY = grid.extent[3] - row * size * grid.pixelSize;
+      const view = exportMap.getView();
+      view.setResolution(grid.pixelSize);
+      view.setCenter([minX + size * grid.pixelSize / 2, maxY - size * grid.pixelSize / 2]);
+      await new Promise<void>((resolve, reject) => {
+          const onAbort = () => reject(abortError());
+          signal?.addEventListener('abort', onAbort, { once: true });
+          exportMap.once('rendercomplete', () => {
+              signal?.removeEventListener('abort', onAbort);
+              resolve();
+          });
+          exportMap.renderSync();
+      });
+
+      const tile = document.createElement('canvas');
+      tile.width = size;
+      tile.height = size;
+      const ctx = tile.getContext('2d')!;
+      const toPixel = (coord: number[]) => [(coord[0] - minX) / grid.pixelSize, (maxY - coord[1]) / grid.pixelSize];
+
+      // Layer canvases, in order: the base imagery is clipped to the boundary, vectors are not
+      target.querySelectorAll('canvas').forEach((canvas: any) => {
+          if (canvas.width === 0) return;
+          ctx.save();
+          if (clipGeoms.length > 0 && canvas.parentNode.classList.contains(EXPORT_BASE_CLASS)) {
+              ctx.beginPath();
+              clipGeoms.forEach(geom => traceRings(ctx, geom, toPixel));
+              ctx.clip();
+          }
+          const opacity = canvas.parentNode.style.opacity;
+          ctx.globalAlpha = opacity === '' ? 1 : Number(opacity);
+          const transform = canvas.style.transform;
+          let matrix;
+          if (transform) {
+              const match = transform.match(/^matrix\(([^\(]*)\)$/);
+              if (match) matrix = match[1].split(',').map(Number);
+          }
+          if (!matrix) matrix = [parseFloat(canvas.style.width) / canvas.width, 0, 0, parseFloat(canvas.style.height) / canvas.height, 0, 0];
+          CanvasRenderingContext2D.prototype.setTransform.apply(ctx, matrix);
+          ctx.drawImage(canvas, 0, 0);
+          ctx.restore();
+      });
+      return tile;
+  };
+
+  const renderExportTiles = async (grid: ExportGrid, onTile: (canvas: HTMLCanvasElement, col: number, row: number) => void | Promise<void>, options: RenderExportOptions = {}) => {
+      const { onProgress, signal } = options;
+      const { exportMap, target } = createExportMap(grid, options);
+      const clipGeoms = options.clip === false ? [] : getExportFeatures(grid.layerId)
+          .map(f => f.getGeometry())
+          .filter((g): g is Polygon | MultiPolygon => g instanceof Polygon || g instanceof MultiPolygon)
+          .map(g => g.clone().transform('EPSG:3857', grid.zoneCode) as Polygon | MultiPolygon);
+
+      const cols = Math.ceil(grid.width / grid.tileSize);
+      const rows = Math.ceil(grid.height / grid.tileSize);
+      try {
+          for (let row = 0; row < rows; row++) {
+              for (let col = 0; col < cols; col++) {
+                  if (signal?.aborted) throw abortError();
+                  const canvas = await renderExportTile(exportMap, target, grid, col, row, clipGeoms, signal);
+                  await onTile(canvas, col, row);
+                  onProgress?.(row * cols + col + 1, rows * cols);
+              }
+          }
+      } finally {
+          // Dispose of the export layers and their own sources (the base tile source is shared with the visible map)
+          const layers = exportMap.getAllLayers();
+          exportMap.dispose();
+          layers.forEach(layer => {
+              const source = layer.getSource();
+              layer.dispose();
+              if (source && source !== baseLayerRef.current?.getSource()) source.dispose();
+          });
+          target.remove();
+      }
+  };
+
   useImperativeHandle(ref, () => ({
     locateUser: () => {
         if (!navigator.geolocation) {
@@ -465,7 +1010,7 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
                 const coords = fromLonLat([longitude, latitude]);
                 if (mapRef.current) {
                     mapRef.current.getView().animate({ center: coords, zoom: 18, duration: 1000 });
-                    const userFeature = new Feature({ geometry: new Point(coords), label: 'Moi' });
+                    const userFeature = new Feature({ geometry: new Point(coords), label: 'Moi', type: 'Position' });
                     pointsSourceRef.current.addFeature(userFeature);
                 }
             },
@@ -473,6 +1018,31 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
             { enableHighAccuracy: true }
         );
     },
+    startMapPick: (onPick) => {
+        mapPickRef.current = onPick;
+        if (mapElement.current) mapElement.current.style.cursor = 'crosshair';
+    },
+    cancelMapPick: () => {
+        mapPickRef.current = null;
+        if (mapElement.current) mapElement.current.style.cursor = '';
+    },
+    setGeorefOverlay: (image, points) => {
+        const map = mapRef.current;
+        if (!map) return;
+        if (georefLayerRef.current && (!image || georefLayerRef.current.getSource()?.getUrl() !== image.url)) {
+            map.removeLayer(georefLayerRef.current);
+            georefLayerRef.current = null;
+        }
+        if (image && !georefLayerRef.current) {
+            georefLayerRef.current = new ImageLayer({
+                source: new ImageStatic({ url: image.url, imageExtent: image.extent, projection: image.projection })
+            });
+            map.getLayers().insertAt(1, georefLayerRef.current);
+        }
+        georefLayerRef.current?.setOpacity(image ? image.opacity : 1);
+        georefSourceRef.current.clear();
+        georefSourceRef.current.addFeatures(points.map(p => new Feature({ geometry: new Point(fromLonLat([p.lon, p.lat])), label: p.label })));
+    },
     flyToLocation: (lon, lat, zoom) => {
         if (mapRef.current) {
             const coords = fromLonLat([lon, lat]);
@@ -538,12 +1108,17 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
         let targetFeatures: Feature[] = [];
         let extent: number[] | null = null;
 
-        if (layerId === 'manual') {
+        const raster = rasterLayersRef.current[layerId]?.getSource();
+        if (raster) {
+            // Footprint of the raster (export extent)
+            extent = transformExtent(raster.getImageExtent(), raster.getProjection()!, 'EPSG:3857');
+            targetFeatures = [new Feature(fromExtent(extent))];
+        } else if (layerId === 'manual') {
             // Select ALL manual features
             targetFeatures = sourceRef.current.getFeatures();
             if (targetFeatures.length > 0) extent = sourceRef.current.getExtent();
         } else {
-            targetFeatures = kmlSourceRef.current.getFeatures().filter(f => f.get('layerId') === layerId);
+            targetFeatures = getImportedLayerFeatures(layerId);
             if (targetFeatures.length > 0) {
                  const firstExtent = targetFeatures[0].getGeometry()?.getExtent();
                  if (firstExtent) {
@@ -566,146 +1141,294 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
              calculateExtentAndNotify(targetFeatures, extent);
         }
     },
-    loadKML: (file, layerId) => { /* Same */
+    loadKML: async (file, layerId) => {
       overlayRef.current?.setPosition(undefined);
-      const processFeatures = (features: any[]) => {
-         features.forEach(f => f.set('layerId', layerId));
-         kmlSourceRef.current.addFeatures(features);
-         if (features.length > 0 && mapRef.current) {
-           let extent = features[0].getGeometry()?.getExtent();
-           if(extent) {
-               features.forEach(f => {
-                   const g = f.getGeometry();
-                   if(g) {
-                       const e = g.getExtent();
-                       extent[0] = Math.min(extent[0], e[0]);
-                       extent[1] = Math.min(extent[1], e[1]);
-                       extent[2] = Math.max(extent[2], e[2]);
-                       extent[3] = Math.max(extent[3], e[3]);
-                   }
-               });
-               calculateExtentAndNotify(features, extent);
-           }
-         }
-      };
-      if (file.name.toLowerCase().endsWith('.kmz')) {
-          const zip = new JSZip();
-          zip.loadAsync(file).then((unzipped: any) => {
-             const kmlFileName = Object.keys(unzipped.files).find(name => name.toLowerCase().endsWith('.kml'));
-             if (kmlFileName) {
-                 unzipped.files[kmlFileName].async("string").then((kmlText: string) => {
-                     const features = new KML().readFeatures(kmlText, { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:3857' });
-                     processFeatures(features);
-                 });
-             }
+      const result = createImportResult(file.name);
+      try {
+          let kmlText: string;
+          if (file.name.toLowerCase().endsWith('.kmz')) {
+              const unzipped = await new JSZip().loadAsync(file);
+              const kmlFileName = Object.keys(unzipped.files).find(name => name.toLowerCase().endsWith('.kml'));
+              if (!kmlFileName) return { ...result, error: "Aucun fichier .kml dans l'archive KMZ." };
+              kmlText = await unzipped.files[kmlFileName].async("string");
+          } else {
+              kmlText = await file.text();
+          }
+          const doc = new DOMParser().parseFromString(kmlText, 'application/xml');
+          if (doc.getElementsByTagName('parsererror').length > 0) return { ...result, error: 'Fichier KML illisible (XML invalide).' };
+          // Folders -> sub-layers, ExtendedData / SchemaData -> attributes, Style / StyleMap kept
+          const folders = markKmlFolders(doc);
+          const styled = hasKmlStyles(doc);
+          const all = new KML().readFeatures(doc, { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:3857' });
+          const features = all.filter(f => f.getGeometry());
+          if (all.length > features.length) result.skipped.push(`${all.length - features.length} placemark(s) sans géométrie`);
+          features.forEach(f => {
+              const folder = f.get(KML_FOLDER_KEY);
+              if (folder !== undefined) {
+                  f.set('subLayer', folder);
+                  f.unset(KML_FOLDER_KEY);
+              }
+              if (styled) keepKmlStyle(f);
+              else f.setStyle(undefined);
           });
-      } else {
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            const kmlText = e.target?.result as string;
-            const features = new KML().readFeatures(kmlText, { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:3857' });
-            processFeatures(features);
-          };
-          reader.readAsText(file);
+          addImportedFeatures(features, layerId);
+          result.loaded = features.length;
+          result.subLayers = folders.filter(folder => features.some(f => f.get('subLayer') === folder));
+          result.styled = styled;
+      } catch (error: any) {
+          result.error = `Fichier KML illisible : ${error?.message || error}`;
       }
+      return result;
     },
-    loadShapefile: (file, layerId) => { /* Same */
+    loadShapefile: async (file, layerId, zoneCode) => {
       overlayRef.current?.setPosition(undefined);
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        if (e.target?.result) {
-          try {
-            const buffer = e.target.result as ArrayBuffer;
-            const geojson = await shp(buffer);
-            const format = new GeoJSON();
-            let features: any[] = [];
-            if (Array.isArray(geojson)) {
-               geojson.forEach(g => { features = features.concat(format.readFeatures(g, { featureProjection: 'EPSG:3857', dataProjection: 'EPSG:4326' })); });
-            } else {
-               features = format.readFeatures(geojson, { featureProjection: 'EPSG:3857', dataProjection: 'EPSG:4326' });
-            }
-            features.forEach(f => f.set('layerId', layerId));
-            kmlSourceRef.current.addFeatures(features);
-            if (features.length > 0 && mapRef.current) {
-                let extent = features[0].getGeometry()?.getExtent();
-                if(extent) {
-                    features.forEach(f => {
-                        const g = f.getGeometry();
-                        if(g) {
-                            const e = g.getExtent();
-                            extent[0] = Math.min(extent[0], e[0]);
-                            extent[1] = Math.min(extent[1], e[1]);
-                            extent[2] = Math.max(extent[2], e[2]);
-                            extent[3] = Math.max(extent[3], e[3]);
-                        }
-                    });
-                    calculateExtentAndNotify(features, extent);
+      const result = createImportResult(file.name);
+      try {
+        // Each .shp of the zip is read with its own .prj (shpjs would only know WGS 84 / proj4 WKT)
+        const zip = await new JSZip().loadAsync(await file.arrayBuffer());
+        const names = Object.keys(zip.files).filter(name => !zip.files[name].dir);
+        const read = (base: string, ext: string, type: 'arraybuffer' | 'string') => {
+            const name = names.find(n => n.toLowerCase() === `${base}.${ext}`.toLowerCase());
+            return name ? zip.files[name].async(type) : Promise.resolve(undefined);
+        };
+        const bases = names.filter(n => /\.shp$/i.test(n)).map(n => n.slice(0, -4));
+        if (bases.length === 0) return { ...result, error: "Aucun fichier .shp dans l'archive." };
+        const format = new GeoJSON();
+        let features: Feature[] = [];
+        for (const base of bases) {
+            const shpName = `${base.split('/').pop()}.shp`;
+            try {
+                const [shpBuffer, dbfBuffer, prj, cpg] = await Promise.all([
+                    read(base, 'shp', 'arraybuffer'), read(base, 'dbf', 'arraybuffer'), read(base, 'prj', 'string'), read(base, 'cpg', 'string')
+                ]);
+                if (!dbfBuffer) result.skipped.push(`${shpName} : pas de .dbf, attributs absents`);
+                const geojson = shp.combine([shp.parseShp(shpBuffer), dbfBuffer ? shp.parseDbf(dbfBuffer, cpg) : undefined]);
+                let dataProjection = prj ? detectPrjZone(prj) : null;
+                if (!dataProjection) {
+                    // Sans .prj reconnu: degrés -> WGS 84, sinon la zone sélectionnée
+                    const lonLat = hasLonLatCoordinates(geojson);
+                    dataProjection = lonLat ? 'EPSG:4326' : (zoneCode || 'EPSG:4326');
+                    if (prj || !lonLat) result.crsIssues.push(`${shpName} (${prj ? '.prj inconnu' : 'sans .prj'}) → ${dataProjection}`);
                 }
+                const records = format.readFeatures(geojson, { featureProjection: 'EPSG:3857', dataProjection });
+                const valid = records.filter(f => f.getGeometry());
+                if (records.length > valid.length) result.skipped.push(`${shpName} : ${records.length - valid.length} enregistrement(s) sans géométrie`);
+                features = features.concat(valid);
+            } catch (error: any) {
+                result.skipped.push(`${shpName} : illisible (${error?.message || error})`);
             }
-          } catch (error: any) {}
         }
-      };
-      reader.readAsArrayBuffer(file);
+        addImportedFeatures(features, layerId);
+        result.loaded = features.length;
+      } catch (error: any) {
+        result.error = `Impossible de lire le Shapefile : ${error?.message || error}`;
+      }
+      return result;
     },
-    loadDXF: (file, zoneCode, layerId) => { /* Same */
+    loadDXF: async (file, zoneCode, layerId) => {
       overlayRef.current?.setPosition(undefined);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const text = e.target?.result as string;
-        try {
-            const DxfParser = (window as any).DxfParser;
-            const parser = new DxfParser();
-            const dxf = parser.parseSync(text);
-            const features: Feature[] = [];
-            const transform = (x: number, y: number) => {
-                const ll = projectFromZone(x, y, zoneCode);
-                if (ll) return fromLonLat(ll);
-                if (zoneCode === 'EPSG:4326') return fromLonLat([x, y]);
-                return null; 
-            };
-            if (dxf && dxf.entities) {
-                for (const entity of dxf.entities) {
-                    if (entity.type === 'LINE') {
-                         const p1 = transform(entity.vertices[0].x, entity.vertices[0].y);
-                         const p2 = transform(entity.vertices[1].x, entity.vertices[1].y);
-                         if (p1 && p2) features.push(new Feature(new LineString([p1, p2])));
-                    } else if (entity.type === 'LWPOLYLINE' || entity.type === 'POLYLINE') {
-                        if (entity.vertices && entity.vertices.length > 1) {
-                            const coords = entity.vertices.map((v: any) => transform(v.x, v.y)).filter((c: any) => c !== null);
-                            if (coords.length > 1) features.push(new Feature(new LineString(coords)));
-                        }
-                    }
-                }
-            }
-            features.forEach(f => f.set('layerId', layerId));
-            kmlSourceRef.current.addFeatures(features);
-            if (features.length > 0 && mapRef.current) {
-                let extent = features[0].getGeometry()?.getExtent();
-                if(extent) {
-                   features.forEach(f => {
-                       const g = f.getGeometry();
-                       if(g) {
-                           const e = g.getExtent();
-                           extent[0] = Math.min(extent[0], e[0]);
-                           extent[1] = Math.min(extent[1], e[1]);
-                           extent[2] = Math.max(extent[2], e[2]);
-                           extent[3] = Math.max(extent[3], e[3]);
-                       }
-                   });
-                   calculateExtentAndNotify(features, extent);
-                }
-            }
-        } catch (err) {}
-      };
-      reader.readAsText(file);
+      const result = createImportResult(file.name);
+      try {
+          const DxfParser = (window as any).DxfParser;
+          const parser = new DxfParser();
+          const dxf = parser.parseSync(await file.text());
+          const features: Feature[] = [];
+          const transform = (x: number, y: number) => {
+              const ll = projectFromZone(x, y, zoneCode);
+              if (ll) return fromLonLat(ll);
+              if (zoneCode === 'EPSG:4326') return fromLonLat([x, y]);
+              return null; 
+          };
+          const { features: items, skipped } = readDXFFeatures(dxf);
+          let outside = 0;
+          items.forEach(item => {
+              const coords = item.coordinates.map(c => transform(c[0], c[1]));
+              if (coords.some(c => c === null)) {
+                  outside++;
+                  return;
+              }
+              const geometry = item.geometryType === 'Point' ? new Point(coords[0]!)
+                  : item.geometryType === 'Polygon' ? new Polygon([coords as number[][]])
+                  : new LineString(coords as number[][]);
+              // DXF layer kept as attribute and as sub-layer of the imported file
+              features.push(new Feature({
+                  geometry,
+                  layer: item.layer,
+                  subLayer: item.layer,
+                  dxfType: item.entityType,
+                  ...(item.text ? { text: item.text, label: item.text, rotation: item.rotation } : {}),
+                  ...(item.block ? { block: item.block } : {})
+              }));
+          });
+          Object.entries(skipped).forEach(([type, count]) => result.skipped.push(`${count} × ${type} non pris en charge ou incomplet`));
+          if (outside > 0) {
+              result.skipped.push(`${outside} entité(s) hors de la zone choisie`);
+              if (features.length === 0) result.crsIssues.push(`Coordonnées incompatibles avec ${zoneCode}, vérifiez la zone sélectionnée`);
+          }
+          addImportedFeatures(features, layerId);
+          result.loaded = features.length;
+          result.subLayers = Array.from(new Set(features.map(f => f.get('subLayer') as string))).sort();
+      } catch (error: any) {
+          result.error = `Fichier DXF illisible : ${error?.message || error}`;
+      }
+      return result;
+    },
+    loadGeoJSON: async (file, layerId, zoneCode) => {
+      overlayRef.current?.setPosition(undefined);
+      const result = createImportResult(file.name);
+      try {
+          const geojson = JSON.parse(await file.text());
+          // crs member first, then the zone chosen by the user, then RFC 7946 (WGS 84)
+          const declared = detectGeoJSONZone(geojson);
+          const dataProjection = declared || zoneCode || 'EPSG:4326';
+          if (geojson.crs && !declared) result.crsIssues.push(`Membre crs non reconnu → ${dataProjection}`);
+          const all = new GeoJSON().readFeatures(geojson, { dataProjection, featureProjection: 'EPSG:3857' });
+          const features = all.filter(f => f.getGeometry());
+          if (all.length > features.length) result.skipped.push(`${all.length - features.length} entité(s) sans géométrie`);
+          addImportedFeatures(features, layerId);
+          result.loaded = features.length;
+      } catch (error: any) {
+          result.error = `Fichier GeoJSON invalide : ${error?.message || error}`;
+      }
+      return result;
+    },
+    loadGPX: async (file, layerId) => {
+      overlayRef.current?.setPosition(undefined);
+      const result = createImportResult(file.name);
+      try {
+          const features = new GPX().readFeatures(await file.text(), { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:3857' })
+              .filter(f => f.getGeometry());
+          // Waypoints -> points layer, tracks / routes -> imported line layer
+          const waypoints = features.filter(f => f.getGeometry() instanceof Point);
+          const lines = features.filter(f => !(f.getGeometry() instanceof Point));
+          waypoints.forEach((f, index) => {
+              f.set('label', f.get('name') || `WP${index + 1}`);
+              f.set('type', 'Point');
+          });
+          tagImportedFeatures(features, layerId);
+          pointsSourceRef.current.addFeatures(waypoints);
+          kmlSourceRef.current.addFeatures(lines);
+          fitImportedFeatures(features);
+          result.loaded = features.length;
+      } catch (error: any) {
+          result.error = `Fichier GPX invalide : ${error?.message || error}`;
+      }
+      return result;
+    },
+    loadRaster: async (file, sidecars, layerId, zoneCode) => {
+      const result = createImportResult(file.name);
+      const map = mapRef.current;
+      if (!map) return result;
+      try {
+          const { raster, crsIssue } = await readGeoRaster(file, sidecars, zoneCode);
+          if (crsIssue) result.crsIssues.push(crsIssue);
+          const layer = new ImageLayer({
+              source: new ImageStatic({ url: raster.url, imageExtent: raster.extent, projection: raster.projection })
+          });
+          // Above the other rasters, under the grid and the vector layers
+          const layers = map.getLayers();
+          layers.insertAt(layers.getArray().findIndex(l => l instanceof VectorLayer), layer);
+          rasterLayersRef.current[layerId] = layer;
+          map.getView().fit(transformExtent(raster.extent, raster.projection, 'EPSG:3857'), { padding: [50, 50, 50, 50], duration: 800 });
+          result.loaded = 1;
+      } catch (error: any) {
+          result.error = `Raster non chargé : ${error?.message || error}`;
+      }
+      return result;
+    },
+    setRasterOpacity: (layerId, opacity) => {
+        rasterLayersRef.current[layerId]?.setOpacity(opacity);
+    },
+    setRasterVisible: (layerId, visible) => {
+        rasterLayersRef.current[layerId]?.setVisible(visible);
+    },
+    addWKT: (text, zoneCode) => {
+      const result = createImportResult('WKT');
+      try {
+          const { geometries, issues } = readWKT(text, zoneCode);
+          result.crsIssues.push(...issues);
+          // Multi-geometries and collections become one drawing per part
+          const features = geometries.flatMap(explodeGeometry).map((geometry, index) => {
+              const type = geometry instanceof Polygon ? 'Polygon' : geometry instanceof LineString ? 'Line' : 'Point';
+              const label = type === 'Polygon' ? `Polygone ${featureCounters.current.Polygon++}`
+                  : type === 'Line' ? `Ligne ${featureCounters.current.Line++}`
+                  : `P${featureCounters.current.Point++}`;
+              const feature = new Feature({ geometry, label, type });
+              feature.setId(`${type}_${Date.now()}_${index + 1}`);
+              return feature;
+          });
+          sourceRef.current.addFeatures(features);
+          notifyManualFeatures();
+          if (features.length > 0) {
+              const extent = createEmpty();
+              features.forEach(f => extend(extent, f.getGeometry()!.getExtent()));
+              calculateExtentAndNotify(features, extent, features.length === 1 ? features[0].getId() as string : undefined);
+          }
+          result.loaded = features.length;
+      } catch (error: any) {
+          result.error = error?.message || String(error);
+      }
+      return result;
+    },
+    getWKT: (id, zoneCode, ewkt) => {
+      const raster = rasterLayersRef.current[id]?.getSource();
+      if (raster) return writeWKT([fromExtent(transformExtent(raster.getImageExtent(), raster.getProjection()!, 'EPSG:3857'))], zoneCode, ewkt);
+      const single = sourceRef.current.getFeatureById(id) || kmlSourceRef.current.getFeatureById(id);
+      const features = id === 'manual' ? sourceRef.current.getFeatures()
+          : single ? [single]
+          : getImportedLayerFeatures(id);
+      const geometries = features.map(f => f.getGeometry()).filter((g): g is Geometry => !!g);
+      return geometries.length > 0 ? writeWKT(geometries, zoneCode, ewkt) : null;
+    },
+    setLayerStyleVisible: (layerId, visible) => {
+        if (visible) plainStyleLayersRef.current.delete(layerId);
+        else plainStyleLayersRef.current.add(layerId);
+        kmlSourceRef.current.changed();
     },
-    loadExcelPoints: (points) => { /* Same */
+    setSubLayerVisible: (layerId, subLayer, visible) => {
+        const key = `${layerId}/${subLayer}`;
+        if (visible) hiddenSubLayersRef.current.delete(key);
+        else hiddenSubLayersRef.current.add(key);
+        kmlSourceRef.current.changed();
+    },
+    getVectorGeoJSON: (zoneCode) => {
+        const format = new GeoJSON();
+        const sources: Array<{ source: VectorSource, name: VectorFeatureInfo['source'] }> = [
+            { source: sourceRef.current, name: 'manual' },
+            { source: pointsSourceRef.current, name: 'points' },
+            { source: measureSourceRef.current, name: 'measure' },
+            { source: kmlSourceRef.current, name: 'imported' },
+        ];
+        const features = sources.flatMap(({ source, name }) => source.getFeatures()
+            .filter(f => f.getGeometry() && f.getGeometry()!.getType() !== 'Circle')
+            .map(f => {
+                const { geometry, selected, ...properties } = f.getProperties();
+                const copy = new Feature({ ...properties, geometry, source: name });
+                copy.setId(f.getId());
+                return copy;
+            }));
+        const collection: any = format.writeFeaturesObject(features, {
+            dataProjection: zoneCode,
+            featureProjection: 'EPSG:3857',
+            decimals: zoneCode === 'EPSG:4326' ? 8 : 3
+        });
+        const crs = createGeoJSONCrs(zoneCode);
+        return crs ? { type: collection.type, crs, features: collection.features } : collection;
+    },
+    loadExcelPoints: (points, layerId) => { /* Same */
         overlayRef.current?.setPosition(undefined); 
-        pointsSourceRef.current.clear();
-        const features = points.map((pt, index) => new Feature({ geometry: new Point(fromLonLat([pt.x, pt.y])), label: pt.label || `P${index + 1}`, type: 'Point' }));
+        // Each import is appended as its own layer (attributes first, so they cannot hide the geometry, label or type)
+        const features = points.map((pt, index) => new Feature({
+            ...pt.attributes,
+            geometry: new Point(fromLonLat([pt.x, pt.y])),
+            label: pt.label || `P${index + 1}`, type: 'Point',
+            ...(pt.z !== undefined ? { z: pt.z } : {}),
+            ...(pt.code ? { code: pt.code } : {})
+        }));
+        if (layerId) tagImportedFeatures(features, layerId);
         pointsSourceRef.current.addFeatures(features);
         if (features.length > 0 && mapRef.current) {
-            const extent = pointsSourceRef.current.getExtent();
+            const extent = new VectorSource({ features }).getExtent();
             if (features.length === 1) {
                 mapRef.current.getView().setCenter(fromLonLat([points[0].x, points[0].y]));
                 mapRef.current.getView().setZoom(16);
@@ -714,6 +1437,27 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
             }
         }
     },
+    // Lines / polygons linked from the point codes: an imported layer, so its polygons can clip the export
+    loadCodedShapes: (shapes, layerId) => {
+        const features = shapes.map(shape => {
+            const coords = shape.coordinates.map(c => fromLonLat(c));
+            if (shape.geometryType === 'Polygon') {
+                const polygon = new Polygon([[...coords, coords[0]]]);
+                return new Feature({
+                    geometry: polygon, label: shape.code, code: shape.code, points: shape.labels.join('-'),
+                    surface_m2: Math.round(getArea(polygon) * 100) / 100,
+                    perimetre_m: Math.round(getLength(new LineString(polygon.getLinearRing(0)!.getCoordinates())) * 100) / 100
+                });
+            }
+            const line = new LineString(coords);
+            return new Feature({
+                geometry: line, label: shape.code, code: shape.code, points: shape.labels.join('-'),
+                longueur_m: Math.round(getLength(line) * 100) / 100
+            });
+        });
+        tagImportedFeatures(features, layerId);
+        kmlSourceRef.current.addFeatures(features);
+    },
     addManualPoint: (x, y, label) => { /* Same */
         const feature = new Feature({ geometry: new Point(fromLonLat([x, y])), label: label, type: 'Point' });
         pointsSourceRef.current.addFeature(feature);
@@ -896,8 +1640,15 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
     clearAll: () => { 
         sourceRef.current.clear(); 
         kmlSourceRef.current.clear(); 
+        hiddenSubLayersRef.current.clear();
+        plainStyleLayersRef.current.clear();
         pointsSourceRef.current.clear();
         measureSourceRef.current.clear();
+        Object.values<ImageLayer<ImageStatic>>(rasterLayersRef.current).forEach(layer => {
+            mapRef.current?.removeLayer(layer);
+            URL.revokeObjectURL(layer.getSource()!.getUrl());
+        });
+        rasterLayersRef.current = {};
         activeMeasurementsRef.current = [];
         overlayRef.current?.setPosition(undefined);
         document.querySelectorAll('.ol-overlay-container').forEach(el => {
@@ -955,213 +1706,133 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
             notifyManualFeatures();
         }
     },
-    getMapCanvas: async (targetScale, layerId) => {
-      if (!mapRef.current) return null;
-      const map = mapRef.current;
-      
-      let exportFeatures: Feature[] = [];
-      let extent: number[] | null = null;
-      const idToExport = layerId || 'manual'; // 'manual' implies ALL, specific ID implies ONE
-
-      if (idToExport === 'manual') {
-          exportFeatures = sourceRef.current.getFeatures();
-          if (exportFeatures.length > 0) extent = sourceRef.current.getExtent();
-      } else {
-          // Check if it's a specific Manual Feature
-          const manualFeat = sourceRef.current.getFeatureById(idToExport);
-          if (manualFeat) {
-              exportFeatures = [manualFeat];
-              extent = manualFeat.getGeometry()?.getExtent() || null;
-          } else {
-              // It is a specific uploaded layer (KML/SHP)
-              const allKmlFeatures = kmlSourceRef.current.getFeatures();
-              exportFeatures = allKmlFeatures.filter(f => f.get('layerId') === idToExport);
-              
-              if (exportFeatures.length > 0) {
-                    const firstExtent = exportFeatures[0].getGeometry()?.getExtent();
-                    if (firstExtent) {
-                    extent = [...firstExtent];
-                    for (let i = 1; i < exportFeatures.length; i++) {
-                        const geom = exportFeatures[i].getGeometry();
-                        if (geom) {
-                            const e = geom.getExtent();
-                            if (e[0] < extent[0]) extent[0] = e[0];
-                            if (e[1] < extent[1]) extent[1] = e[1];
-                            if (e[2] > extent[2]) extent[2] = e[2];
-                            if (e[3] > extent[3]) extent[3] = e[3];
-                        }
-                    }
-                    }
-              }
-          }
-      }
-
-      if (!extent || exportFeatures.length === 0) {
-          alert("La couche sélectionnée est vide ou invalide.");
-          return null;
-      }
-
-      // Add points and measurements to context regardless of clipping layer
-      const otherFeatures = [...pointsSourceRef.current.getFeatures(), ...measureSourceRef.current.getFeatures()];
-      const allFeaturesToRender = [...exportFeatures, ...otherFeatures];
-
-      const view = map.getView();
-      const originalSize = map.getSize();
-      const originalRes = view.getResolution();
-      const originalCenter = view.getCenter();
-      const center = [(extent[0] + extent[2]) / 2, (extent[1] + extent[3]) / 2];
-      const wgs = convertToWGS84(center[0], center[1]);
-      const exportRes = targetScale ? getResolutionFromScale(targetScale, parseFloat(wgs.lat)) : (originalRes || 1);
-      const widthPx = Math.ceil((extent[2] - extent[0]) / exportRes);
-      const heightPx = Math.ceil((extent[3] - extent[1]) / exportRes);
-      
-      if (widthPx > 16384 || heightPx > 16384) { alert("La zone est trop grande."); return null; }
-      
-      map.setSize([widthPx, heightPx]);
-      view.setResolution(exportRes);
-      view.setCenter(center);
-      
-      return new Promise((resolve) => {
-        map.once('rendercomplete', () => {
-          const mapCanvas = document.createElement('canvas');
-          mapCanvas.width = widthPx;
-          mapCanvas.height = heightPx;
-          const mapContext = mapCanvas.getContext('2d');
-          if (!mapContext) return resolve(null);
-          
-          // Draw Manual Features (Lines/Polygons)
-          mapContext.beginPath();
-          allFeaturesToRender.forEach(feature => {
-            // Re-implement basic styling for canvas export to match the new dynamic style
-            // Note: Canvas export of styles is manual in OpenLayers usually, this is a simplified version
-            // that tries to mimic the map appearance.
-            
-            const geom = feature.getGeometry();
-             if (geom instanceof LineString) {
-                const lineCoords = geom.getCoordinates();
-                mapContext.beginPath();
-                lineCoords.forEach((coord, idx) => {
-                    const px = (coord[0] - extent![0]) / exportRes;
-                    const py = (extent![3] - coord[1]) / exportRes;
-                    if (idx === 0) mapContext.moveTo(px, py);
-                    else mapContext.lineTo(px, py);
-                });
-                mapContext.strokeStyle = measureSourceRef.current.hasFeature(feature) ? "#3b82f6" : "#22c55e"; // Blue measure, Green manual
-                mapContext.lineWidth = 2;
-                if(measureSourceRef.current.hasFeature(feature)) mapContext.setLineDash([10, 10]);
-                mapContext.stroke();
-                mapContext.setLineDash([]);
+    getExportGrid: computeExportGrid,
+    getLayerFeatures: (layerId) => {
+        return getImportedLayerFeatures(layerId)
+            .filter(f => f.getGeometry())
+            .map(f => {
+                const { geometry, layerId: _layer, ...properties } = f.getProperties();
+                const geom = f.getGeometry();
+                const polygons = geom instanceof Polygon ? [geom] : (geom instanceof MultiPolygon ? geom.getPolygons() : []);
+                return {
+                    id: f.getId() as string,
+                    properties,
+                    area: polygons.reduce((sum, p) => sum + getArea(p), 0),
+                    perimeter: polygons.length > 0
+                        ? polygons.reduce((sum, p) => sum + getLength(new LineString(p.getLinearRing(0)!.getCoordinates())), 0)
+                        : (geom instanceof LineString ? getLength(geom) : 0)
+                };
+            });
+    },
+    getVectorFeatures: (zoneCode) => {
+        let measureIndex = 0;
+        const sources: Array<{ source: VectorSource, name: VectorFeatureInfo['source'] }> = [
+            { source: sourceRef.current, name: 'manual' },
+            { source: pointsSourceRef.current, name: 'points' },
+            { source: measureSourceRef.current, name: 'measure' },
+            { source: kmlSourceRef.current, name: 'imported' },
+        ];
+        const result: VectorFeatureInfo[] = [];
+        sources.forEach(({ source, name }) => source.getFeatures().forEach(f => {
+            const geom = f.getGeometry();
+            const parts = geom ? explodeGeometry(geom) : [];
+            if (parts.length === 0) return;
+
+            let label = f.get('label');
+            let type = f.get('type');
+            let extra: Partial<VectorFeatureInfo> = {};
+            // Measurements have no label of their own
+            if (name === 'measure') {
+                label = `Mesure ${++measureIndex}`;
+                type = parts[0] instanceof LineString ? 'Mesure longueur' : 'Mesure surface';
             }
-            if (geom instanceof Polygon || geom instanceof MultiPolygon) {
-                 const polys = geom instanceof Polygon ? [geom.getCoordinates()] : geom.getCoordinates();
-                 polys.forEach(polyCoords => {
-                    mapContext.beginPath();
-                    polyCoords.forEach((ring: any[]) => {
-                        ring.forEach((coord, idx) => {
-                            const px = (coord[0] - extent![0]) / exportRes;
-                            const py = (extent![3] - coord[1]) / exportRes;
-                            if (idx === 0) mapContext.moveTo(px, py);
-                            else mapContext.lineTo(px, py);
-                        });
-                        mapContext.closePath();
-                    });
-                    
-                    if (measureSourceRef.current.hasFeature(feature)) {
-                        mapContext.fillStyle = "rgba(255, 255, 255, 0.2)";
-                        mapContext.fill();
-                        mapContext.strokeStyle = "#3b82f6";
-                        mapContext.stroke();
-                    } else if (exportFeatures.includes(feature)) {
-                         // Clipping Feature
-                         mapContext.strokeStyle = "#f59e0b"; // Orange/Yellowish for boundary
-                         mapContext.lineWidth = 3;
-                         mapContext.stroke();
-                    } else {
-                         // Other manual feature - Transparent Green
-                         mapContext.strokeStyle = "#22c55e";
-                         mapContext.lineWidth = 2;
-                         mapContext.stroke();
-                    }
-                 });
+            if (name === 'imported' || (name === 'points' && f.get('layerId'))) {
+                const { geometry, layerId, ...properties } = f.getProperties();
+                if (name === 'imported') label = properties.name || properties.label || properties.Name || '';
+                type = undefined;
+                extra = { layerId, properties };
             }
-          });
 
-          // Clip logic
-          if (exportFeatures.length > 0) {
-              mapContext.beginPath();
-               exportFeatures.forEach(feature => {
-                 const geom = feature.getGeometry();
-                 if (geom instanceof Polygon || geom instanceof MultiPolygon) {
-                     const polys = geom instanceof Polygon ? [geom.getCoordinates()] : geom.getCoordinates();
-                     polys.forEach(polyCoords => {
-                        polyCoords.forEach((ring: any[]) => {
-                            ring.forEach((coord, idx) => {
-                                const px = (coord[0] - extent![0]) / exportRes;
-                                const py = (extent![3] - coord[1]) / exportRes;
-                                if (idx === 0) mapContext.moveTo(px, py);
-                                else mapContext.lineTo(px, py);
-                            });
-                            mapContext.closePath();
-                        });
-                     });
-                 }
-               });
-               mapContext.clip();
-          }
-
-          // Draw Raster Layers (Satellite)
-          const canvases = mapElement.current?.querySelectorAll('.ol-layer canvas');
-          canvases?.forEach((canvas: any) => {
-            if (canvas.width > 0) {
-              const opacity = canvas.parentNode.style.opacity;
-              mapContext.globalAlpha = opacity === '' ? 1 : Number(opacity);
-              const transform = canvas.style.transform;
-              let matrix;
-              if (transform) {
-                const match = transform.match(/^matrix\(([^\(]*)\)$/);
-                if (match) matrix = match[1].split(',').map(Number);
-              }
-              if (!matrix) matrix = [parseFloat(canvas.style.width) / canvas.width, 0, 0, parseFloat(canvas.style.height) / canvas.height, 0, 0];
-              CanvasRenderingContext2D.prototype.setTransform.apply(mapContext, matrix);
-              mapContext.drawImage(canvas, 0, 0);
-            }
-          });
-          mapContext.setTransform(1, 0, 0, 1, 0, 0);
-          mapContext.globalAlpha = 1;
-
-          // Draw Points on top
-          otherFeatures.forEach(feature => {
-             const geom = feature.getGeometry();
-             if (geom instanceof Point) {
-                 const coord = geom.getCoordinates();
-                 const px = (coord[0] - extent![0]) / exportRes;
-                 const py = (extent![3] - coord[1]) / exportRes;
-                 
-                 // Draw the Marker Icon (Simplified to Circle/Pin for Canvas)
-                 mapContext.beginPath();
-                 mapContext.arc(px, py, 6, 0, 2 * Math.PI);
-                 mapContext.fillStyle = "#2563eb";
-                 mapContext.fill();
-                 mapContext.strokeStyle = "#ffffff";
-                 mapContext.lineWidth = 2;
-                 mapContext.stroke();
-             }
-          });
-
-          map.setSize(originalSize);
-          view.setResolution(originalRes);
-          view.setCenter(originalCenter);
-          resolve({ canvas: mapCanvas, extent: extent! });
-        });
-        map.renderSync();
+            parts.forEach(part => {
+                const zonePart = part.clone().transform('EPSG:3857', zoneCode);
+                if (part instanceof Polygon) {
+                    result.push({
+                        source: name, geometryType: 'Polygon', label: label || '', type: type || 'Polygon', ...extra,
+                        parts: (zonePart as Polygon).getCoordinates(),
+                        area: getArea(part),
+                        perimeter: getLength(new LineString(part.getLinearRing(0)!.getCoordinates()))
+                    });
+                } else if (part instanceof LineString) {
+                    result.push({
+                        source: name, geometryType: 'LineString', label: label || '', type: type || 'Line', ...extra,
+                        parts: [(zonePart as LineString).getCoordinates()],
+                        area: 0,
+                        perimeter: getLength(part)
+                    });
+                } else {
+                    result.push({
+                        source: name, geometryType: 'Point', label: label || '', type: type || 'Point', ...extra,
+                        parts: [[(zonePart as Point).getCoordinates()]],
+                        area: 0,
+                        perimeter: 0
+                    });
+                }
+            });
+        }));
+        return result;
+    },
+    renderExportTiles: renderExportTiles,
+    getMapCanvas: async (targetScale, layerId, zoneCode, options: MapCanvasOptions = {}) => {
+      const { extent, pixelSize, ...renderOptions } = options;
+      const grid = extent
+        ? buildExportGrid(extent, pixelSize || getZoneResolutionFromScale(targetScale, zoneCode), zoneCode, layerId)
+        : computeExportGrid(targetScale, layerId, zoneCode);
+      if (!grid) return null;
+      if (grid.width > 16384 || grid.height > 16384) { alert("La zone est trop grande."); return null; }
+
+      const mapCanvas = document.createElement('canvas');
+      mapCanvas.width = grid.width;
+      mapCanvas.height = grid.height;
+      const mapContext = mapCanvas.getContext('2d');
+      if (!mapContext) return null;
+
+      await renderExportTiles(grid, (tile, col, row) => {
+          mapContext.drawImage(tile, col * grid.tileSize, row * grid.tileSize);
+      }, renderOptions);
+      return { canvas: mapCanvas, grid };
+    },
+    getLegendItems: (extent, zoneCode) => {
+      const viewExtent = transformExtent(extent, zoneCode, 'EPSG:3857');
+      const inExtent = (source: VectorSource | null) => source ? source.getFeaturesInExtent(viewExtent) : [];
+      const isLine = (f: Feature) => /LineString/.test(f.getGeometry()?.getType() || '');
+      const items: LegendItem[] = [];
+
+      const imported = inExtent(kmlSourceRef.current);
+      Array.from(new Set(imported.map(f => f.get('layerId') as string))).forEach(layerId => {
+          const features = imported.filter(f => f.get('layerId') === layerId);
+          items.push({ layerId, label: layerId, color: '#f59e0b', symbol: features.every(isLine) ? 'line' : 'polygon' });
       });
+
+      const manual = inExtent(sourceRef.current);
+      const drawn = manual.filter(f => f.getGeometry()?.getType() !== 'Point');
+      if (drawn.length > 0) items.push({ label: 'Dessins', color: '#22c55e', symbol: drawn.every(isLine) ? 'line' : 'polygon' });
+      if (manual.length > drawn.length || inExtent(pointsSourceRef.current).length > 0) items.push({ label: 'Points', color: '#3b82f6', symbol: 'point' });
+      if (inExtent(measureSourceRef.current).length > 0) items.push({ label: 'Mesures', color: '#3b82f6', symbol: 'dash' });
+      if (showGridRef.current) items.push({ label: zoneCode === 'EPSG:4326' ? 'Graticule WGS 84' : 'Quadrillage Lambert', color: '#6b7280', symbol: 'line' });
+      return items;
     }
   }));
 
   useEffect(() => {
     selectedZoneRef.current = selectedZone;
+    updateGrid();
   }, [selectedZone]);
 
+  useEffect(() => {
+    showGridRef.current = showGrid;
+    updateGrid();
+  }, [showGrid]);
+
   // Init Map
   useEffect(() => {
     if (!mapElement.current) return;
@@ -1236,10 +1907,12 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
       target: mapElement.current,
       layers: [
         baseLayer,
-        new VectorLayer({ source: kmlSourceRef.current, style: new Style({ stroke: new Stroke({ color: '#f59e0b', width: 2.5 }), fill: new Fill({ color: 'rgba(245, 158, 11, 0.05)' }) }) }),
+        new VectorLayer({ source: gridSourceRef.current, style: gridStyle }),
+        new VectorLayer({ source: kmlSourceRef.current, style: importedStyleFunction }),
         new VectorLayer({ source: pointsSourceRef.current, style: pointStyle }),
         new VectorLayer({ source: measureSourceRef.current, style: measureStyle }),
-        new VectorLayer({ source: sourceRef.current, style: manualStyleFunction })
+        new VectorLayer({ source: sourceRef.current, style: manualStyleFunction }),
+        new VectorLayer({ source: georefSourceRef.current, style: georefPointStyle })
       ],
       view: new View({ center: fromLonLat([-7.5898, 33.5731]), zoom: 6, maxZoom: 22 }),
       controls: [new Zoom(), new ScaleLine({ units: 'metric' })],
@@ -1249,6 +1922,7 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
     map.addInteraction(select);
     map.addInteraction(modify);
     map.addInteraction(snap);
+    map.on('moveend', updateGrid);
     
     map.on('pointermove', (evt) => {
         if (evt.dragging) return;
@@ -1265,14 +1939,27 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
         const hit = map.hasFeatureAtPixel(pixel, { layerFilter: (l) => l.getSource() === pointsSourceRef.current || l.getSource() === sourceRef.current });
         
         // Change cursor based on mode
-        if (isDeleteModeRef.current) {
+        if (mapPickRef.current) {
+            mapElement.current!.style.cursor = 'crosshair';
+        } else if (isDeleteModeRef.current) {
             mapElement.current!.style.cursor = hit ? 'not-allowed' : 'cell';
         } else {
-            mapElement.current!.style.cursor = hit ? 'pointer' : '';
+            const hitImported = !drawInteractionRef.current && map.hasFeatureAtPixel(pixel, { layerFilter: (l) => l.getSource() === kmlSourceRef.current });
+            mapElement.current!.style.cursor = hit || hitImported ? 'pointer' : '';
         }
     });
 
     map.on('click', (evt) => {
+        // Georeferencing: the click places a control point
+        if (mapPickRef.current) {
+            const [lon, lat] = toLonLat(evt.coordinate);
+            const onPick = mapPickRef.current;
+            mapPickRef.current = null;
+            mapElement.current!.style.cursor = '';
+            onPick(lon, lat);
+            return;
+        }
+
         // PREVENT POPUP IF DRAWING OR DELETING
         if (drawInteractionRef.current || isDeleteModeRef.current) return;
 
@@ -1286,7 +1973,15 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
              if (geom instanceof Point) {
                  showPointPopup(feature, geom.getCoordinates());
              }
+             return;
         }
+
+        // Imported feature: its attributes (manual drawings keep the selection)
+        if (map.hasFeatureAtPixel(pixel, { layerFilter: (l) => l.getSource() === sourceRef.current })) return;
+        const imported = map.forEachFeatureAtPixel(pixel, (feat) => feat, {
+             layerFilter: (l) => l.getSource() === kmlSourceRef.current
+        });
+        if (imported && imported instanceof Feature) showFeaturePopup(imported, evt.coordinate);
     });
 
     // Notify initial empty state
@@ -1325,7 +2020,7 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
 
   return (
       <div ref={mapElement} className="w-full h-full bg-slate-50 relative">
-          <div ref={popupRef} className="absolute bg-white/95 backdrop-blur border border-slate-300 rounded-lg p-0 shadow-2xl min-w-[180px] max-w-[220px] text-slate-800 z-50">
+          <div ref={popupRef} className={`absolute bg-white/95 backdrop-blur border border-slate-300 rounded-lg p-0 shadow-2xl min-w-[180px] ${popupContent?.type === 'FEATURE' ? 'max-w-[300px]' : 'max-w-[220px]'} text-slate-800 z-50`}>
              {popupContent && popupContent.type === 'AREA' && (
                  <div className="p-2 text-center">
                      <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider mb-1">Surface Calculée</div>
@@ -1337,6 +2032,43 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
                      </div>
                  </div>
              )}
+             {popupContent && popupContent.type === 'FEATURE' && (
+                 <div className="flex flex-col w-full">
+                     <div className="p-2 border-b border-slate-200 flex justify-between items-center bg-slate-50 rounded-t-lg">
+                         <span className="font-bold text-xs text-slate-800 truncate" title={popupContent.title}>{popupContent.title}</span>
+                         <button 
+                            onClick={(e) => {
+                                e.stopPropagation(); 
+                                overlayRef.current?.setPosition(undefined);
+                            }} 
+                            className="text-slate-400 hover:text-red-500 px-1"
+                         >
+                             <i className="fas fa-times text-sm"></i>
+                         </button>
+                     </div>
+                     <div className="p-2 text-[10px] space-y-1">
+                         {popupContent.folder && <div className="text-blue-600 font-bold truncate"><i className="fas fa-folder mr-1"></i>{popupContent.folder}</div>}
+                         {Object.keys(popupContent.attributes).length === 0 ? (
+                             <div className="text-slate-400 italic">Aucun attribut</div>
+                         ) : (
+                             <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 max-h-48 overflow-auto">
+                                 {Object.entries(popupContent.attributes).map(([key, value]) => (
+                                     <React.Fragment key={key}>
+                                         <span className="font-bold text-slate-500 truncate max-w-[90px]" title={key}>{key}:</span>
+                                         <span className="font-mono break-all select-text">{value}</span>
+                                     </React.Fragment>
+                                 ))}
+                             </div>
+                         )}
+                     </div>
+                     <div className="bg-slate-100 p-1.5 border-t border-slate-200 rounded-b-lg">
+                         <button onClick={copyPopupWKT} className="w-full flex items-center justify-center gap-1 p-1 rounded bg-white border border-slate-300 hover:bg-slate-50 transition-colors text-[9px] font-bold" title="Géométrie dans la zone sélectionnée">
+                             <i className={`fas ${wktCopied ? 'fa-check text-green-600' : 'fa-copy text-slate-600'} text-[10px]`}></i> {wktCopied ? 'WKT copié' : 'Copier en WKT'}
+                         </button>
+                     </div>
+                 </div>
+             )}
+
              {popupContent && popupContent.type === 'POINT' && (
                  <div className="flex flex-col w-full">
                      <div className="p-2 border-b border-slate-200 flex justify-between items-center bg-slate-50 rounded-t-lg">
@@ -1367,8 +2099,21 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
                                  <span className="font-bold text-slate-400">Lon:</span> <span className="font-mono">{popupContent.lon.toFixed(6)}°</span>
                              </div>
                          </div>
+                         {popupContent.attributes && (
+                             <div className="border-t border-slate-100 pt-1">
+                                 <div className="font-bold text-slate-500 mb-0.5">Attributs</div>
+                                 <div className="grid grid-cols-[auto_1fr] gap-x-2 text-[9px] max-h-24 overflow-auto">
+                                     {Object.entries(popupContent.attributes).map(([key, value]) => (
+                                         <React.Fragment key={key}>
+                                             <span className="font-bold text-slate-400 truncate max-w-[70px]" title={key}>{key}:</span>
+                                             <span className="font-mono break-all">{value}</span>
+                                         </React.Fragment>
+                                     ))}
+                                 </div>
+                             </div>
+                         )}
                      </div>
-                     <div className="bg-slate-100 p-1.5 border-t border-slate-200 rounded-b-lg grid grid-cols-4 gap-1">
+                     <div className="bg-slate-100 p-1.5 border-t border-slate-200 rounded-b-lg grid grid-cols-5 gap-1">
                          <button onClick={downloadPointTXT} className="flex flex-col items-center justify-center p-1 rounded bg-white border border-slate-300 hover:bg-slate-50 transition-colors" title="Text Report">
                              <i className="fas fa-file-alt text-[10px] text-slate-600 mb-0.5"></i>
                              <span className="text-[8px] font-bold">TXT</span>
@@ -1385,6 +2130,10 @@ const MapComponent = forwardRef<MapComponentRef, MapComponentProps>(({ onSelecti
                              <i className="fas fa-globe text-[10px] text-yellow-600 mb-0.5"></i>
                              <span className="text-[8px] font-bold">KML</span>
                          </button>
+                         <button onClick={copyPopupWKT} className="flex flex-col items-center justify-center p-1 rounded bg-white border border-slate-300 hover:bg-slate-50 transition-colors" title="Copier en WKT (zone sélectionnée)">
+                             <i className={`fas ${wktCopied ? 'fa-check text-green-600' : 'fa-copy text-slate-600'} text-[10px] mb-0.5`}></i>
+                             <span className="text-[8px] font-bold">WKT</span>
+                         </button>
                      </div>
                  </div>
              )}
@@ -0,0 +1,511 @@
+/**
+ * كاتب وقارئ DXF
+ * Writer (AutoCAD 2000 / AC1015): HEADER, TABLES (layers, line types, text style...), BLOCKS,
+ * ENTITIES and OBJECTS with entity handles, so that AutoCAD and Covadis open the file without repair.
+ * Polygons and lines are LWPOLYLINE, points are POINT, labels and vertex numbers are TEXT.
+ * Reader: turns the entities parsed by dxf-parser into simple geometries in drawing units.
+ */
+
+export interface DxfFeature {
+  geometryType: 'Point' | 'LineString' | 'Polygon';
+  parts: number[][][]; // Point: [[xy]], LineString: [coords], Polygon: rings (outer first)
+  label: string;
+}
+
+export interface DxfLayer {
+  name: string;
+  color: number;       // AutoCAD Color Index
+  features: DxfFeature[];
+}
+
+export interface DxfOptions {
+  textHeight: number;      // in drawing units
+  numberVertices?: boolean; // vertex numbers on a "<layer>_SOMMETS" layer (default true)
+}
+
+// Handles of the fixed objects; entity handles start after them
+const H = {
+  VPORT_TABLE: '8', VPORT: '9', LTYPE_TABLE: '5', BYBLOCK: '14', BYLAYER: '15', CONTINUOUS: '16',
+  LAYER_TABLE: '2', LAYER_0: '10', STYLE_TABLE: '3', STANDARD: '11', VIEW_TABLE: '6', UCS_TABLE: '7',
+  APPID_TABLE: '9A', ACAD: '12', DIMSTYLE_TABLE: 'A', BLOCK_RECORD_TABLE: '1',
+  MODEL_SPACE: '1F', PAPER_SPACE: '1B', MODEL_BLOCK: '20', MODEL_ENDBLK: '21', PAPER_BLOCK: '1C', PAPER_ENDBLK: '1D',
+  ROOT_DICT: 'C', GROUP_DICT: 'D',
+};
+const FIRST_HANDLE = 0x100;
+
+// Non-ASCII characters as \U+XXXX (ANSI_1252 drawing code page)
+const encodeText = (text: string) => Array.from(text.replace(/[\r\n]+/g, ' '))
+  .map(ch => {
+    const code = ch.codePointAt(0)!;
+    return code > 126 ? `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}` : ch;
+  })
+  .join('');
+
+// Layer names: file extension dropped, no <>/\":;?*|=` and commas, non-ASCII as \U+XXXX
+export const sanitizeDxfLayerName = (name: string) =>
+  encodeText(name.replace(/\.[a-z][a-z0-9]{1,4}$/i, '').replace(/[<>\/\\":;?*|=`,]+/g, '_').trim().slice(0, 255)) || 'CALQUE';
+
+const num = (v: number) => (Math.round(v * 1e6) / 1e6).toString();
+
+// Handle counter shared by the builders of one drawing
+class HandleSeed {
+  private next = FIRST_HANDLE;
+
+  take() {
+    return (this.next++).toString(16).toUpperCase();
+  }
+
+  toString() {
+    return this.next.toString(16).toUpperCase();
+  }
+}
+
+class DxfBuilder {
+  private lines: string[] = [];
+
+  constructor(private seed: HandleSeed) {}
+
+  pair(code: number, value: string | number) {
+    this.lines.push(String(code), typeof value === 'number' ? num(value) : value);
+  }
+
+  handle() {
+    return this.seed.take();
+  }
+
+  toString() {
+    return this.lines.length ? this.lines.join('\r\n') + '\r\n' : '';
+  }
+}
+
+const writeTable = (b: DxfBuilder, name: string, handle: string, count: number, writeEntries: () => void, subclass?: string) => {
+  b.pair(0, 'TABLE');
+  b.pair(2, name);
+  b.pair(5, handle);
+  b.pair(330, '0');
+  b.pair(100, 'AcDbSymbolTable');
+  b.pair(70, count);
+  if (subclass) b.pair(100, subclass);
+  writeEntries();
+  b.pair(0, 'ENDTAB');
+};
+
+const writeTableRecord = (b: DxfBuilder, type: string, handle: string, owner: string, subclass: string) => {
+  b.pair(0, type);
+  b.pair(5, handle);
+  b.pair(330, owner);
+  b.pair(100, 'AcDbSymbolTableRecord');
+  b.pair(100, subclass);
+};
+
+const writeLineType = (b: DxfBuilder, handle: string, name: string, description: string) => {
+  writeTableRecord(b, 'LTYPE', handle, H.LTYPE_TABLE, 'AcDbLinetypeTableRecord');
+  b.pair(2, name);
+  b.pair(70, 0);
+  b.pair(3, description);
+  b.pair(72, 65);
+  b.pair(73, 0);
+  b.pair(40, 0);
+};
+
+const writeLayer = (b: DxfBuilder, handle: string, name: string, color: number) => {
+  writeTableRecord(b, 'LAYER', handle, H.LAYER_TABLE, 'AcDbLayerTableRecord');
+  b.pair(2, name);
+  b.pair(70, 0);
+  b.pair(62, color);
+  b.pair(6, 'Continuous');
+};
+
+const writeBlock = (b: DxfBuilder, name: string, blockHandle: string, endHandle: string, owner: string) => {
+  b.pair(0, 'BLOCK');
+  b.pair(5, blockHandle);
+  b.pair(330, owner);
+  b.pair(100, 'AcDbEntity');
+  b.pair(8, '0');
+  b.pair(100, 'AcDbBlockBegin');
+  b.pair(2, name);
+  b.pair(70, 0);
+  [10, 20, 30].forEach(code => b.pair(code, 0));
+  b.pair(3, name);
+  b.pair(1, '');
+  b.pair(0, 'ENDBLK');
+  b.pair(5, endHandle);
+  b.pair(330, owner);
+  b.pair(100, 'AcDbEntity');
+  b.pair(8, '0');
+  b.pair(100, 'AcDbBlockEnd');
+};
+
+const entityStart = (b: DxfBuilder, type: string, layer: string, subclass: string) => {
+  b.pair(0, type);
+  b.pair(5, b.handle());
+  b.pair(330, H.MODEL_SPACE);
+  b.pair(100, 'AcDbEntity');
+  b.pair(8, layer);
+  b.pair(100, subclass);
+};
+
+const writeText = (b: DxfBuilder, layer: string, x: number, y: number, height: number, text: string) => {
+  entityStart(b, 'TEXT', layer, 'AcDbText');
+  b.pair(10, x);
+  b.pair(20, y);
+  b.pair(30, 0);
+  b.pair(40, height);
+  b.pair(1, encodeText(text));
+  b.pair(7, 'Standard');
+  b.pair(100, 'AcDbText');
+};
+
+const writePolyline = (b: DxfBuilder, layer: string, coords: number[][], closed: boolean) => {
+  entityStart(b, 'LWPOLYLINE', layer, 'AcDbPolyline');
+  b.pair(90, coords.length);
+  b.pair(70, closed ? 1 : 0);
+  b.pair(43, 0);
+  coords.forEach(c => {
+    b.pair(10, c[0]);
+    b.pair(20, c[1]);
+  });
+};
+
+// Open ring (the closing vertex is implied by the closed flag)
+const openRing = (ring: number[][]) => ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+  ? ring.slice(0, -1)
+  : ring;
+
+const labelAnchor = (feature: DxfFeature): number[] => {
+  const coords = feature.geometryType === 'Polygon' ? openRing(feature.parts[0]) : feature.parts[0];
+  if (feature.geometryType === 'LineString') {
+    const i = Math.max(0, Math.floor((coords.length - 1) / 2));
+    const j = Math.min(coords.length - 1, i + 1);
+    return [(coords[i][0] + coords[j][0]) / 2, (coords[i][1] + coords[j][1]) / 2];
+  }
+  const sum = coords.reduce((acc, c) => [acc[0] + c[0], acc[1] + c[1]], [0, 0]);
+  return [sum[0] / coords.length, sum[1] / coords.length];
+};
+
+const getExtent = (layers: DxfLayer[]) => {
+  // Loop, not Math.min(...coords): spreading a large layer overflows the call stack
+  const extent = [Infinity, Infinity, -Infinity, -Infinity];
+  layers.forEach(l => l.features.forEach(f => f.parts.forEach(part => part.forEach(c => {
+    if (c[0] < extent[0]) extent[0] = c[0];
+    if (c[1] < extent[1]) extent[1] = c[1];
+    if (c[0] > extent[2]) extent[2] = c[0];
+    if (c[1] > extent[3]) extent[3] = c[1];
+  }))));
+  return extent[0] === Infinity ? [0, 0, 0, 0] : extent;
+};
+
+/**
+ * Build the DXF text of a project: one layer per source layer (plus its vertex numbers layer).
+ */
+export const createProjectDXF = (layers: DxfLayer[], options: DxfOptions): string => {
+  const numberVertices = options.numberVertices !== false;
+  const h = options.textHeight;
+  const seed = new HandleSeed();
+  const b = new DxfBuilder(seed);
+  const entities = new DxfBuilder(seed);
+  const footer = new DxfBuilder(seed);
+
+  const layerDefs: Array<{ name: string, color: number, handle: string }> = [];
+  const addLayerDef = (name: string, color: number) => {
+    if (!layerDefs.some(l => l.name.toUpperCase() === name.toUpperCase())) layerDefs.push({ name, color, handle: seed.take() });
+  };
+
+  // Entities first (they consume handles); the sections are assembled around them
+  layers.forEach(layer => {
+    const name = sanitizeDxfLayerName(layer.name);
+    const vertexLayer = `${name}_SOMMETS`;
+    addLayerDef(name, layer.color);
+    if (numberVertices && layer.features.some(f => f.geometryType !== 'Point')) addLayerDef(vertexLayer, layer.color);
+
+    layer.features.forEach(f => {
+      if (f.geometryType === 'Point') {
+        const [x, y] = f.parts[0][0];
+        entities.pair(0, 'POINT');
+        entities.pair(5, entities.handle());
+        entities.pair(330, H.MODEL_SPACE);
+        entities.pair(100, 'AcDbEntity');
+        entities.pair(8, name);
+        entities.pair(100, 'AcDbPoint');
+        entities.pair(10, x);
+        entities.pair(20, y);
+        entities.pair(30, 0);
+        if (f.label) writeText(entities, name, x + h * 0.5, y + h * 0.5, h, f.label);
+        return;
+      }
+
+      const rings = f.geometryType === 'Polygon' ? f.parts.map(openRing) : f.parts;
+      rings.forEach(coords => writePolyline(entities, name, coords, f.geometryType === 'Polygon'));
+      if (f.label) {
+        const [x, y] = labelAnchor(f);
+        writeText(entities, name, x, y, h, f.label);
+      }
+      if (numberVertices) {
+        let n = 1;
+        rings.forEach(coords => coords.forEach(c => writeText(entities, vertexLayer, c[0] + h * 0.3, c[1] + h * 0.3, h * 0.7, String(n++))));
+      }
+    });
+  });
+
+  const extent = getExtent(layers);
+
+  // HEADER
+  b.pair(0, 'SECTION');
+  b.pair(2, 'HEADER');
+  b.pair(9, '$ACADVER'); b.pair(1, 'AC1015');
+  b.pair(9, '$DWGCODEPAGE'); b.pair(3, 'ANSI_1252');
+  b.pair(9, '$INSBASE'); b.pair(10, 0); b.pair(20, 0); b.pair(30, 0);
+  b.pair(9, '$EXTMIN'); b.pair(10, extent[0]); b.pair(20, extent[1]); b.pair(30, 0);
+  b.pair(9, '$EXTMAX'); b.pair(10, extent[2]); b.pair(20, extent[3]); b.pair(30, 0);
+  b.pair(9, '$LIMMIN'); b.pair(10, extent[0]); b.pair(20, extent[1]);
+  b.pair(9, '$LIMMAX'); b.pair(10, extent[2]); b.pair(20, extent[3]);
+  b.pair(9, '$TEXTSIZE'); b.pair(40, h);
+  b.pair(9, '$INSUNITS'); b.pair(70, 6); // metres
+  b.pair(9, '$HANDSEED'); b.pair(5, seed.toString());
+  b.pair(0, 'ENDSEC');
+
+  b.pair(0, 'SECTION');
+  b.pair(2, 'CLASSES');
+  b.pair(0, 'ENDSEC');
+
+  // TABLES
+  b.pair(0, 'SECTION');
+  b.pair(2, 'TABLES');
+  writeTable(b, 'VPORT', H.VPORT_TABLE, 1, () => {
+    writeTableRecord(b, 'VPORT', H.VPORT, H.VPORT_TABLE, 'AcDbViewportTableRecord');
+    b.pair(2, '*Active');
+    b.pair(70, 0);
+    b.pair(10, 0); b.pair(20, 0); b.pair(11, 1); b.pair(21, 1);
+    b.pair(12, (extent[0] + extent[2]) / 2); b.pair(22, (extent[1] + extent[3]) / 2);
+    b.pair(40, Math.max(extent[3] - extent[1], (extent[2] - extent[0]) / 1.5, 1) * 1.1);
+    b.pair(41, 1.5);
+  });
+  writeTable(b, 'LTYPE', H.LTYPE_TABLE, 3, () => {
+    writeLineType(b, H.BYBLOCK, 'ByBlock', '');
+    writeLineType(b, H.BYLAYER, 'ByLayer', '');
+    writeLineType(b, H.CONTINUOUS, 'Continuous', 'Solid line');
+  });
+  writeTable(b, 'LAYER', H.LAYER_TABLE, layerDefs.length + 1, () => {
+    writeLayer(b, H.LAYER_0, '0', 7);
+    layerDefs.forEach(l => writeLayer(b, l.handle, l.name, l.color));
+  });
+  writeTable(b, 'STYLE', H.STYLE_TABLE, 1, () => {
+    writeTableRecord(b, 'STYLE', H.STANDARD, H.STYLE_TABLE, 'AcDbTextStyleTableRecord');
+    b.pair(2, 'Standard');
+    b.pair(70, 0);
+    b.pair(40, 0);
+    b.pair(41, 1);
+    b.pair(50, 0);
+    b.pair(71, 0);
+    b.pair(42, h);
+    b.pair(3, 'txt');
+    b.pair(4, '');
+  });
+  writeTable(b, 'VIEW', H.VIEW_TABLE, 0, () => {});
+  writeTable(b, 'UCS', H.UCS_TABLE, 0, () => {});
+  writeTable(b, 'APPID', H.APPID_TABLE, 1, () => {
+    writeTableRecord(b, 'APPID', H.ACAD, H.APPID_TABLE, 'AcDbRegAppTableRecord');
+    b.pair(2, 'ACAD');
+    b.pair(70, 0);
+  });
+  writeTable(b, 'DIMSTYLE', H.DIMSTYLE_TABLE, 0, () => {}, 'AcDbDimStyleTable');
+  writeTable(b, 'BLOCK_RECORD', H.BLOCK_RECORD_TABLE, 2, () => {
+    writeTableRecord(b, 'BLOCK_RECORD', H.MODEL_SPACE, H.BLOCK_RECORD_TABLE, 'AcDbBlockTableRecord');
+    b.pair(2, '*Model_Space');
+    writeTableRecord(b, 'BLOCK_RECORD', H.PAPER_SPACE, H.BLOCK_RECORD_TABLE, 'AcDbBlockTableRecord');
+    b.pair(2, '*Paper_Space');
+  });
+  b.pair(0, 'ENDSEC');
+
+  // BLOCKS
+  b.pair(0, 'SECTION');
+  b.pair(2, 'BLOCKS');
+  writeBlock(b, '*Model_Space', H.MODEL_BLOCK, H.MODEL_ENDBLK, H.MODEL_SPACE);
+  writeBlock(b, '*Paper_Space', H.PAPER_BLOCK, H.PAPER_ENDBLK, H.PAPER_SPACE);
+  b.pair(0, 'ENDSEC');
+
+  // ENTITIES
+  b.pair(0, 'SECTION');
+  b.pair(2, 'ENTITIES');
+  footer.pair(0, 'ENDSEC');
+
+  // OBJECTS: root dictionary with the (empty) group dictionary
+  footer.pair(0, 'SECTION');
+  footer.pair(2, 'OBJECTS');
+  footer.pair(0, 'DICTIONARY');
+  footer.pair(5, H.ROOT_DICT);
+  footer.pair(330, '0');
+  footer.pair(100, 'AcDbDictionary');
+  footer.pair(281, 1);
+  footer.pair(3, 'ACAD_GROUP');
+  footer.pair(350, H.GROUP_DICT);
+  footer.pair(0, 'DICTIONARY');
+  footer.pair(5, H.GROUP_DICT);
+  footer.pair(330, H.ROOT_DICT);
+  footer.pair(100, 'AcDbDictionary');
+  footer.pair(281, 1);
+  footer.pair(0, 'ENDSEC');
+  footer.pair(0, 'EOF');
+
+  return b.toString() + entities.toString() + footer.toString();
+};
+
+// ---------------------------------------------------------------------------
+// Lecture (entities from dxf-parser -> simple geometries)
+
+export interface DxfImportedFeature {
+  geometryType: 'Point' | 'LineString' | 'Polygon';
+  coordinates: number[][]; // drawing units — Point: [xy], LineString: vertices, Polygon: closed outer ring
+  layer: string;           // DXF layer name
+  entityType: string;      // LINE, LWPOLYLINE, POINT, TEXT, INSERT...
+  text?: string;           // TEXT / MTEXT content
+  rotation?: number;       // TEXT / MTEXT rotation (degrees, counter-clockwise)
+  block?: string;          // INSERT block name
+}
+
+// 2D affine matrix [a, b, c, d, e, f]: x' = a x + c y + e, y' = b x + d y + f
+type Matrix = number[];
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_BLOCK_DEPTH = 8;
+const ARC_STEP = Math.PI / 36; // 5° per segment
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const apply = (m: Matrix, x: number, y: number) => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+
+// Entities drawn with a (0, 0, -1) extrusion are mirrored in X (object coordinate system)
+const ocsMatrix = (entity: any): Matrix => entity.extrusionDirectionZ < 0 || entity.extrusionDirection?.z < 0 ? [-1, 0, 0, 1, 0, 0] : IDENTITY;
+
+const arcPoints = (cx: number, cy: number, r: number, start: number, sweep: number) => {
+  const steps = Math.max(2, Math.ceil(Math.abs(sweep) / ARC_STEP));
+  const points: number[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = start + sweep * i / steps;
+    points.push([cx + r * Math.cos(a), cy + r * Math.sin(a)]);
+  }
+  return points;
+};
+
+// Vertices of a polyline with its bulges (arc segments) approximated, last vertex excluded when closed
+const expandBulges = (vertices: any[], closed: boolean) => {
+  const points: number[][] = [];
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const v1 = vertices[i];
+    const v2 = vertices[(i + 1) % vertices.length];
+    points.push([v1.x, v1.y]);
+    const chord = Math.hypot(v2.x - v1.x, v2.y - v1.y);
+    if (!v1.bulge || chord === 0) continue;
+    // Included angle 4·atan(bulge), centre on the chord's perpendicular
+    const theta = 4 * Math.atan(v1.bulge);
+    const r = chord / (2 * Math.sin(theta / 2));
+    const d = r * Math.cos(theta / 2);
+    const cx = (v1.x + v2.x) / 2 - d * (v2.y - v1.y) / chord;
+    const cy = (v1.y + v2.y) / 2 + d * (v2.x - v1.x) / chord;
+    const arc = arcPoints(cx, cy, Math.abs(r), Math.atan2(v1.y - cy, v1.x - cx), theta);
+    points.push(...arc.slice(1, -1));
+  }
+  if (!closed && vertices.length > 0) points.push([vertices[vertices.length - 1].x, vertices[vertices.length - 1].y]);
+  return points;
+};
+
+// MTEXT formatting codes (\P paragraphs, {\f...;} fonts, \~ spaces...) -> plain text
+export const cleanMText = (text: string) => text
+  .replace(/\\P/gi, ' ')
+  .replace(/\\~/g, ' ')
+  .replace(/\\S([^;]*);/g, (_, frac) => frac.replace(/[#^]/, '/'))
+  .replace(/\\[ACFHQTW][^;\\]*;/gi, '')
+  .replace(/\\[LlOoKk]/g, '')
+  .replace(/[{}]/g, '')
+  .replace(/\\\\/g, '\\')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Read the entities of a parsed DXF (dxf-parser) as points, lines and polygons.
+ * INSERT blocks are exploded (position, scale, rotation); entities on layer 0 inside a block take the INSERT layer.
+ * Unsupported or unreadable entities are counted by type in `skipped`.
+ */
+export const readDXFFeatures = (dxf: any): { features: DxfImportedFeature[], skipped: Record<string, number> } => {
+  const features: DxfImportedFeature[] = [];
+  const skipped: Record<string, number> = {}; // Entity type -> count (unsupported or without geometry)
+  const skip = (type: string) => { skipped[type] = (skipped[type] || 0) + 1; };
+
+  const readEntity = (entity: any, m: Matrix, parentLayer: string | null, depth: number) => {
+    const layer = (!entity.layer || entity.layer === '0') && parentLayer ? parentLayer : (entity.layer || '0');
+    const om = multiply(m, ocsMatrix(entity));
+    const push = (geometryType: DxfImportedFeature['geometryType'], coords: number[][], extra: Partial<DxfImportedFeature> = {}, matrix = m) => {
+      const coordinates = coords.map(c => apply(matrix, c[0], c[1]));
+      if (!coordinates.every(c => isFinite(c[0]) && isFinite(c[1]))) return skip(entity.type);
+      if (geometryType === 'Polygon') coordinates.push(coordinates[0]);
+      features.push({ geometryType, coordinates, layer, entityType: entity.type, ...extra });
+    };
+
+    switch (entity.type) {
+      case 'LINE':
+        if (entity.vertices?.length === 2) push('LineString', entity.vertices.map((v: any) => [v.x, v.y]));
+        else skip(entity.type);
+        break;
+      case 'LWPOLYLINE':
+      case 'POLYLINE': {
+        const vertices = entity.vertices || [];
+        if (vertices.length < 2) return skip(entity.type);
+        const closed = !!entity.shape && vertices.length > 2;
+        push(closed ? 'Polygon' : 'LineString', expandBulges(vertices, closed), {}, om);
+        break;
+      }
+      case 'CIRCLE':
+      case 'ARC': {
+        if (!entity.center || !entity.radius) return skip(entity.type);
+        if (entity.type === 'CIRCLE') {
+          push('Polygon', arcPoints(entity.center.x, entity.center.y, entity.radius, 0, 2 * Math.PI).slice(0, -1), {}, om);
+        } else {
+          let sweep = entity.endAngle - entity.startAngle;
+          if (sweep <= 0) sweep += 2 * Math.PI;
+          push('LineString', arcPoints(entity.center.x, entity.center.y, entity.radius, entity.startAngle, sweep), {}, om);
+        }
+        break;
+      }
+      case 'POINT':
+        if (entity.position) push('Point', [[entity.position.x, entity.position.y]]);
+        else skip(entity.type);
+        break;
+      case 'TEXT':
+      case 'MTEXT': {
+        // Aligned TEXT is placed on its second alignment point
+        const position = entity.type === 'MTEXT' ? entity.position : ((entity.halign || entity.valign) && entity.endPoint) || entity.startPoint;
+        const text = entity.type === 'MTEXT' ? cleanMText(entity.text || '') : (entity.text || '').trim();
+        if (!position || !text) return skip(entity.type);
+        const rotation = (entity.rotation || 0) + Math.atan2(m[1], m[0]) * 180 / Math.PI;
+        push('Point', [[position.x, position.y]], { text, rotation });
+        break;
+      }
+      case 'INSERT': {
+        const block = dxf.blocks?.[entity.name];
+        if (!entity.position) return skip(entity.type);
+        if (depth === 0) push('Point', [[entity.position.x, entity.position.y]], { block: entity.name }, om);
+        if (!block?.entities || depth >= MAX_BLOCK_DEPTH) break;
+        // Insertion: translate(position) · rotate · scale · translate(-base point)
+        const angle = (entity.rotation || 0) * Math.PI / 180;
+        const sx = entity.xScale ?? 1, sy = entity.yScale ?? 1;
+        const base = block.position || { x: 0, y: 0 };
+        const local: Matrix = [
+          Math.cos(angle) * sx, Math.sin(angle) * sx, -Math.sin(angle) * sy, Math.cos(angle) * sy,
+          entity.position.x, entity.position.y
+        ];
+        const blockMatrix = multiply(multiply(om, local), [1, 0, 0, 1, -base.x, -base.y]);
+        block.entities.forEach((child: any) => readEntity(child, blockMatrix, layer, depth + 1));
+        break;
+      }
+      default:
+        skip(entity.type);
+    }
+  };
+
+  (dxf?.entities || []).forEach((entity: any) => readEntity(entity, IDENTITY, null, 0));
+  return { features, skipped };
+};
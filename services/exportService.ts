@@ -0,0 +1,9 @@
+// World file (.tfw) - the reference point is the centre of the upper-left pixel
+export const createWorldFile = (extent: number[], pixelSizeX: number, pixelSizeY: number = pixelSizeX): string => {
+  return [
+    pixelSizeX.toFixed(12), "0.000000000000", "0.000000000000",
+    (-pixelSizeY).toFixed(12),
+    (extent[0] + pixelSizeX / 2).toFixed(12),
+    (extent[3] - pixelSizeY / 2).toFixed(12)
+  ].join('\n');
+};
@@ -23,6 +23,115 @@ proj4.defs("EPSG:26194", "+proj=lcc +lat_1=26.1 +lat_0=26.1 +lon_0=-5.4 +k_0=0.9
 // Zone IV (Sahara Sud) - EPSG:26195
 proj4.defs("EPSG:26195", "+proj=lcc +lat_1=22.5 +lat_0=22.5 +lon_0=-5.4 +k_0=0.999616437 +x_0=1500000 +y_0=400000 +a=6378249.2 +b=6356515.0 +towgs84=31,146,47,0,0,0,0 +units=m +no_defs");
 
+/**
+ * معاملات النطاقات (نفس القيم المستعملة في proj4.defs أعلاه)
+ * Used to write the .prj (WKT) of exported files.
+ */
+export interface LambertZoneParams {
+  name: string;
+  lat0: number;
+  lon0: number;
+  k0: number;
+  x0: number;
+  y0: number;
+}
+
+export const LAMBERT_ZONES: Record<string, LambertZoneParams> = {
+  'EPSG:26191': { name: 'Merchich / Nord Maroc', lat0: 33.3, lon0: -5.4, k0: 0.999625769, x0: 500000, y0: 300000 },
+  'EPSG:26192': { name: 'Merchich / Sud Maroc', lat0: 29.7, lon0: -5.4, k0: 0.999615596, x0: 500000, y0: 300000 },
+  'EPSG:26194': { name: 'Merchich / Sahara Nord', lat0: 26.1, lon0: -5.4, k0: 0.999616304, x0: 1200000, y0: 400000 },
+  'EPSG:26195': { name: 'Merchich / Sahara Sud', lat0: 22.5, lon0: -5.4, k0: 0.999616437, x0: 1500000, y0: 400000 },
+};
+
+const CLARKE_1880_IGN = { a: 6378249.2, b: 6356515.0 };
+
+const WGS84_WKT = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+// Generate the .prj content (WKT) for a zone code
+export const getPrjWKT = (zoneCode: string): string => {
+  const zone = LAMBERT_ZONES[zoneCode];
+  if (!zone) return WGS84_WKT;
+
+  const invFlattening = CLARKE_1880_IGN.a / (CLARKE_1880_IGN.a - CLARKE_1880_IGN.b);
+  const epsg = zoneCode.split(':')[1];
+  return `PROJCS["${zone.name}",` +
+    `GEOGCS["Merchich",DATUM["Merchich",SPHEROID["Clarke 1880 (IGN)",${CLARKE_1880_IGN.a},${invFlattening.toFixed(9)},AUTHORITY["EPSG","7011"]],` +
+    `TOWGS84[31,146,47,0,0,0,0],AUTHORITY["EPSG","6261"]],` +
+    `PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4261"]],` +
+    `PROJECTION["Lambert_Conformal_Conic_1SP"],` +
+    `PARAMETER["latitude_of_origin",${zone.lat0}],PARAMETER["central_meridian",${zone.lon0}],` +
+    `PARAMETER["scale_factor",${zone.k0}],PARAMETER["false_easting",${zone.x0}],PARAMETER["false_northing",${zone.y0}],` +
+    `UNIT["metre",1,AUTHORITY["EPSG","9001"]],AXIS["X",EAST],AXIS["Y",NORTH],AUTHORITY["EPSG","${epsg}"]]`;
+};
+
+// Zone of a .prj (ESRI or OGC WKT): EPSG authority, then Lambert parameters, then zone names; null if unknown
+export const detectPrjZone = (wkt: string): string | null => {
+  const text = wkt.trim();
+  const authority = text.match(/AUTHORITY\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]\s*$/i);
+  if (authority) {
+    const code = `EPSG:${authority[1]}`;
+    if (code === 'EPSG:4326' || code === 'EPSG:3857' || LAMBERT_ZONES[code]) return code;
+  }
+  if (/^GEOGCS/i.test(text)) return /WGS[_ ]?(19)?84/i.test(text) ? 'EPSG:4326' : null;
+  if (/Mercator_Auxiliary_Sphere|Pseudo[_ -]Mercator|Popular[_ ]Visualisation/i.test(text)) return 'EPSG:3857';
+  if (!/Lambert_Conformal_Conic/i.test(text)) return null;
+
+  const param = (...names: string[]) => {
+    for (const name of names) {
+      const match = text.match(new RegExp(`PARAMETER\\[\\s*"${name}"\\s*,\\s*(-?[\\d.eE+-]+)`, 'i'));
+      if (match) return parseFloat(match[1]);
+    }
+    return NaN;
+  };
+  // Old Moroccan .prj files give the angles in grads (37 gr = 33.3°)
+  const toDegrees = /UNIT\[\s*"Grad/i.test(text) ? 0.9 : 1;
+  const lat0 = param('latitude_of_origin', 'standard_parallel_1') * toDegrees;
+  const lon0 = param('central_meridian', 'longitude_of_origin') * toDegrees;
+  const x0 = param('false_easting');
+  const y0 = param('false_northing');
+  const byParams = Object.keys(LAMBERT_ZONES).find(code => {
+    const z = LAMBERT_ZONES[code];
+    return Math.abs(z.lat0 - lat0) < 1e-3 && Math.abs(z.lon0 - lon0) < 1e-3 && Math.abs(z.x0 - x0) < 1 && Math.abs(z.y0 - y0) < 1;
+  });
+  if (byParams) return byParams;
+
+  if (/Sahara[_ ]?Nord/i.test(text)) return 'EPSG:26194';
+  if (/Sahara[_ ]?Sud/i.test(text)) return 'EPSG:26195';
+  if (/Nord[_ ]?Maroc/i.test(text)) return 'EPSG:26191';
+  if (/Sud[_ ]?Maroc/i.test(text)) return 'EPSG:26192';
+  return null;
+};
+
+// Zone of a GeoJSON named `crs` member (GeoJSON 2008), null if absent or not supported
+export const detectGeoJSONZone = (geojson: any): string | null => {
+  const name = geojson?.crs?.properties?.name;
+  if (typeof name !== 'string') return null;
+  if (/CRS:?84$/i.test(name)) return 'EPSG:4326';
+  const match = name.match(/EPSG:{1,2}(?:[\d.]*:)?(\d+)$/i);
+  if (!match) return null;
+  const code = `EPSG:${match[1]}`;
+  return code === 'EPSG:4326' || code === 'EPSG:3857' || LAMBERT_ZONES[code] ? code : null;
+};
+
+// Named `crs` member for a zone (RFC 7946 files in WGS 84 have none)
+export const createGeoJSONCrs = (zoneCode: string) => zoneCode === 'EPSG:4326'
+  ? undefined
+  : { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${zoneCode.split(':')[1]}` } };
+
+// True when every coordinate of a GeoJSON object fits in longitude/latitude bounds
+export const hasLonLatCoordinates = (geojson: any): boolean => {
+  const check = (value: any): boolean => {
+    if (!Array.isArray(value)) return true;
+    if (typeof value[0] === 'number') return Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+    return value.every(check);
+  };
+  const geometries = (g: any): any[] => !g ? [] : g.type === 'GeometryCollection' ? g.geometries.flatMap(geometries) : [g];
+  const all = geojson?.type === 'FeatureCollection' ? geojson.features.flatMap((f: any) => geometries(f.geometry))
+    : geojson?.type === 'Feature' ? geometries(geojson.geometry)
+    : geometries(geojson);
+  return all.every((g: any) => check(g.coordinates));
+};
+
 export interface WGS84Coords {
   lat: string;
   lng: string;
@@ -87,6 +196,33 @@ export const getResolutionFromScale = (scaleValue: number, lat: number): number
   return resolution;
 };
 
+// دقة البكسل في النطاق المختار (m/px لامبير، deg/px لـ WGS84)
+// WGS 84: the same deg/px on both axes (1° ≈ 111 320 m, no cos(latitude)), so pixels are square in degrees
+// and the output is not at the requested scale (about 15–20 % finer in X at Moroccan latitudes).
+export const getZoneResolutionFromScale = (scaleValue: number, zoneCode: string): number => {
+  const groundResolution = scaleValue * 0.000264583333;
+  if (zoneCode === 'EPSG:4326') return groundResolution / 111320;
+  return groundResolution;
+};
+
+// تباعد شبكة الإحداثيات (1, 2, 5 x 10^n بوحدات النطاق): lines about 120 px apart at this resolution
+export const getGridInterval = (resolution: number): number => {
+  const rough = resolution * 120;
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  const n = rough / power;
+  return (n < 1.5 ? 1 : n < 3.5 ? 2 : n < 7.5 ? 5 : 10) * power;
+};
+
+// Label of a grid line: "412 500" in Lambert, "33.25°N" / "7.5°W" in WGS 84
+export const formatGridLabel = (value: number, axis: 'x' | 'y', interval: number, zoneCode: string): string => {
+  if (zoneCode === 'EPSG:4326') {
+    const decimals = Math.max(0, -Math.floor(Math.log10(interval) + 1e-9));
+    const hemisphere = axis === 'x' ? (value < 0 ? 'W' : 'E') : (value < 0 ? 'S' : 'N');
+    return `${Math.abs(value).toFixed(decimals)}°${hemisphere}`;
+  }
+  return Math.round(value).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+};
+
 // تنسيق المساحة للعرض
 export const formatArea = (area: number): { formattedM2: string, formattedHa: string } => {
   const formattedM2 = area.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -108,19 +244,24 @@ export const formatArea = (area: number): { formattedM2: string, formattedHa: st
 };
 
 // Reverse Geocoding
-export const fetchLocationName = async (lat: number, lon: number): Promise<string> => {
+export interface LocationName {
+    slug: string; // file names: lowercase a-z0-9_ ("location" if unknown)
+    name: string; // locality as returned by Nominatim, for display ('' if unknown)
+}
+
+export const fetchLocationName = async (lat: number, lon: number): Promise<LocationName> => {
     try {
         const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}&zoom=12&addressdetails=1`, {
             headers: { 'User-Agent': 'GeoMapperPro/1.0' }
         });
         const data = await response.json();
         const addr = data.address;
-        if (!addr) return "location";
-        const name = addr.village || addr.town || addr.city || addr.municipality || addr.county || "maroc";
-        return name.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+        if (!addr) return { slug: "location", name: "" };
+        const name: string = addr.village || addr.town || addr.city || addr.municipality || addr.county || "";
+        return { slug: (name || "maroc").toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, ''), name };
     } catch (e) {
         console.error("Geocoding failed", e);
-        return "location";
+        return { slug: "location", name: "" };
     }
 };
 
@@ -217,12 +358,19 @@ Longitude : ${lon.toFixed(7)}
 `;
 };
 
+// Text and attribute values of the XML exports (KML, GPX)
+export const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
 // Generate Point KML File
 export const createPointKML = (lat: number, lon: number, label: string) => {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <kml xmlns="http://www.opengis.net/kml/2.2">
   <Placemark>
-    <name>${label}</name>
+    <name>${escapeXml(label)}</name>
     <Point>
       <coordinates>${lon},${lat},0</coordinates>
     </Point>
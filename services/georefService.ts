@@ -0,0 +1,218 @@
+/**
+ * التسجيل الجغرافي للمخططات الممسوحة (نقاط الارتكاز)
+ * Helmert (similarity), affine and 2nd-order polynomial transforms fitted by least squares,
+ * with the residual of every control point, and warping of the scanned image into the map CRS.
+ * Image rows grow downwards: they are negated so that Helmert keeps the image unmirrored.
+ */
+
+declare const pdfjsLib: any;
+
+export type TransformKind = 'helmert' | 'affine' | 'polynomial';
+
+export interface ControlPoint {
+  id: string;
+  pixel: number[];       // [column, row] in the scanned image
+  map: number[] | null;  // [x, y] in the zone CRS (NaN while typed only partly), null until placed
+  enabled: boolean;
+}
+
+export interface FittedTransform {
+  kind: TransformKind;
+  forward: (col: number, row: number) => number[];  // image pixel -> map [x, y]
+  inverse: (x: number, y: number) => number[];      // map -> image pixel [col, row]
+  residuals: Record<string, number[]>;              // point id -> [dx, dy, distance] in map units
+  rmse: number;
+}
+
+export interface WarpedImage {
+  canvas: HTMLCanvasElement;
+  extent: number[];  // [minX, minY, maxX, maxY] in the zone CRS
+  pixelSize: number;
+}
+
+export const TRANSFORM_KINDS: Array<{ value: TransformKind, label: string, minPoints: number }> = [
+  { value: 'helmert', label: 'Helmert (4 paramètres)', minPoints: 2 },
+  { value: 'affine', label: 'Affine (6 paramètres)', minPoints: 3 },
+  { value: 'polynomial', label: 'Polynomiale ordre 2 (12 paramètres)', minPoints: 6 },
+];
+
+// Longest side of the scanned image kept in memory (pixels)
+const MAX_PLAN_SIDE = 8000;
+// PDF pages are rendered at 300 dpi (PDF units are 1/72 inch)
+const PDF_DPI = 300;
+
+/**
+ * Scanned plan as a canvas: JPG / PNG, or one page of a PDF.
+ */
+export const loadPlanImage = async (file: File, pageNumber = 1): Promise<{ canvas: HTMLCanvasElement, pageCount: number }> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  if (/\.pdf$/i.test(file.name)) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const page = await pdf.getPage(Math.min(Math.max(1, pageNumber), pdf.numPages));
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(PDF_DPI / 72, MAX_PLAN_SIDE / Math.max(base.width, base.height)) });
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    return { canvas, pageCount: pdf.numPages };
+  }
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PLAN_SIDE / Math.max(bitmap.width, bitmap.height));
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { canvas, pageCount: 1 };
+};
+
+// Solve A·x = b in the least squares sense (normal equations, Gauss-Jordan with partial pivoting)
+const solveLeastSquares = (A: number[][], b: number[]): number[] | null => {
+  const n = A[0].length;
+  const N = Array.from({ length: n }, (_, i) => Array.from({ length: n + 1 }, (_, j) =>
+    A.reduce((sum, row, k) => sum + row[i] * (j < n ? row[j] : b[k]), 0)));
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(N[r][col]) > Math.abs(N[pivot][col])) pivot = r;
+    if (Math.abs(N[pivot][col]) < 1e-12) return null;
+    [N[col], N[pivot]] = [N[pivot], N[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = N[r][col] / N[col][col];
+      for (let c = col; c <= n; c++) N[r][c] -= factor * N[col][c];
+    }
+  }
+  return N.map((row, i) => row[n] / row[i]);
+};
+
+// Centre and scale of a point set (keeps the normal equations well conditioned with Lambert metres)
+const normalization = (points: number[][]) => {
+  const cx = points.reduce((s, p) => s + p[0], 0) / points.length;
+  const cy = points.reduce((s, p) => s + p[1], 0) / points.length;
+  const scale = Math.sqrt(points.reduce((s, p) => s + (p[0] - cx) ** 2 + (p[1] - cy) ** 2, 0) / points.length) || 1;
+  return { cx, cy, scale };
+};
+
+const polynomialTerms = (u: number, v: number) => [1, u, v, u * u, u * v, v * v];
+
+// Mapping src -> dst fitted on the pairs, null when the points are too few or degenerate
+const fitPairs = (src: number[][], dst: number[][], kind: TransformKind): ((x: number, y: number) => number[]) | null => {
+  const minPoints = TRANSFORM_KINDS.find(k => k.value === kind)!.minPoints;
+  if (src.length < minPoints) return null;
+  const ns = normalization(src);
+  const nd = normalization(dst);
+  const s = src.map(p => [(p[0] - ns.cx) / ns.scale, (p[1] - ns.cy) / ns.scale]);
+  const d = dst.map(p => [(p[0] - nd.cx) / nd.scale, (p[1] - nd.cy) / nd.scale]);
+  const denormalize = (x: number, y: number) => [x * nd.scale + nd.cx, y * nd.scale + nd.cy];
+
+  if (kind === 'helmert') {
+    // x = a·u - b·v + c ; y = b·u + a·v + e
+    const A = s.flatMap(([u, v]) => [[u, -v, 1, 0], [v, u, 0, 1]]);
+    const p = solveLeastSquares(A, d.flat());
+    if (!p) return null;
+    const [a, b, c, e] = p;
+    return (x, y) => {
+      const u = (x - ns.cx) / ns.scale, v = (y - ns.cy) / ns.scale;
+      return denormalize(a * u - b * v + c, b * u + a * v + e);
+    };
+  }
+
+  const terms = kind === 'affine' ? (u: number, v: number) => [1, u, v] : polynomialTerms;
+  const A = s.map(([u, v]) => terms(u, v));
+  const px = solveLeastSquares(A, d.map(p => p[0]));
+  const py = solveLeastSquares(A, d.map(p => p[1]));
+  if (!px || !py) return null;
+  return (x, y) => {
+    const t = terms((x - ns.cx) / ns.scale, (y - ns.cy) / ns.scale);
+    return denormalize(t.reduce((sum, v, i) => sum + v * px[i], 0), t.reduce((sum, v, i) => sum + v * py[i], 0));
+  };
+};
+
+// Enabled point with both map coordinates
+export const isPlaced = (p: ControlPoint) => p.enabled && !!p.map && p.map.every(v => isFinite(v));
+
+/**
+ * Fit the transform on the enabled, placed control points; null until there are enough of them.
+ */
+export const fitTransform = (points: ControlPoint[], kind: TransformKind): FittedTransform | null => {
+  const used = points.filter(isPlaced);
+  const image = used.map(p => [p.pixel[0], -p.pixel[1]]);
+  const map = used.map(p => p.map!);
+  const toMap = fitPairs(image, map, kind);
+  const toImage = fitPairs(map, image, kind);
+  if (!toMap || !toImage) return null;
+
+  const forward = (col: number, row: number) => toMap(col, -row);
+  const inverse = (x: number, y: number) => {
+    const [col, negRow] = toImage(x, y);
+    return [col, -negRow];
+  };
+  const residuals: Record<string, number[]> = {};
+  let sum = 0;
+  used.forEach(p => {
+    const [x, y] = forward(p.pixel[0], p.pixel[1]);
+    const dx = x - p.map![0], dy = y - p.map![1];
+    residuals[p.id] = [dx, dy, Math.hypot(dx, dy)];
+    sum += dx * dx + dy * dy;
+  });
+  return { kind, forward, inverse, residuals, rmse: Math.sqrt(sum / used.length) };
+};
+
+/**
+ * Resample the scanned image on a north-up grid of the zone CRS (nearest neighbour, transparent outside).
+ * The ground pixel size follows the scan resolution, enlarged so that the output stays under maxPixels.
+ */
+export const warpImage = (source: HTMLCanvasElement, transform: FittedTransform, maxPixels: number): WarpedImage | null => {
+  const { width: srcWidth, height: srcHeight } = source;
+  // Footprint: the image border, sampled (a polynomial bends the edges)
+  const border: number[][] = [];
+  for (let i = 0; i <= 16; i++) {
+    const t = i / 16;
+    border.push(transform.forward(t * srcWidth, 0), transform.forward(t * srcWidth, srcHeight),
+      transform.forward(0, t * srcHeight), transform.forward(srcWidth, t * srcHeight));
+  }
+  const xs = border.map(p => p[0]), ys = border.map(p => p[1]);
+  if (![...xs, ...ys].every(isFinite)) return null;
+
+  // Ground size of one scanned pixel at the centre of the image
+  const c = transform.forward(srcWidth / 2, srcHeight / 2);
+  const cx = transform.forward(srcWidth / 2 + 1, srcHeight / 2);
+  const cy = transform.forward(srcWidth / 2, srcHeight / 2 + 1);
+  let pixelSize = Math.sqrt(Math.hypot(cx[0] - c[0], cx[1] - c[1]) * Math.hypot(cy[0] - c[0], cy[1] - c[1]));
+  if (!(pixelSize > 0)) return null;
+  const spanX = Math.max(...xs) - Math.min(...xs), spanY = Math.max(...ys) - Math.min(...ys);
+  if ((spanX / pixelSize) * (spanY / pixelSize) > maxPixels) pixelSize = Math.sqrt(spanX * spanY / maxPixels);
+
+  const extent = [
+    Math.floor(Math.min(...xs) / pixelSize) * pixelSize, Math.floor(Math.min(...ys) / pixelSize) * pixelSize,
+    Math.ceil(Math.max(...xs) / pixelSize) * pixelSize, Math.ceil(Math.max(...ys) / pixelSize) * pixelSize
+  ];
+  const width = Math.max(1, Math.round((extent[2] - extent[0]) / pixelSize));
+  const height = Math.max(1, Math.round((extent[3] - extent[1]) / pixelSize));
+
+  const src = source.getContext('2d')!.getImageData(0, 0, srcWidth, srcHeight).data;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(width, height);
+  const data = out.data;
+  for (let j = 0; j < height; j++) {
+    const y = extent[3] - (j + 0.5) * pixelSize;
+    for (let i = 0; i < width; i++) {
+      const [col, row] = transform.inverse(extent[0] + (i + 0.5) * pixelSize, y);
+      const sc = Math.floor(col), sr = Math.floor(row);
+      if (sc < 0 || sr < 0 || sc >= srcWidth || sr >= srcHeight) continue;
+      const s = (sr * srcWidth + sc) * 4, o = (j * width + i) * 4;
+      data[o] = src[s];
+      data[o + 1] = src[s + 1];
+      data[o + 2] = src[s + 2];
+      data[o + 3] = src[s + 3];
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return { canvas, extent, pixelSize };
+};
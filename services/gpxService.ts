@@ -0,0 +1,48 @@
+import { escapeXml } from './geoService';
+
+/**
+ * كاتب GPX 1.1 (أجهزة GPS الميدانية)
+ * Points become waypoints (wpt), lines become tracks (trk) with one segment per line.
+ * Coordinates are WGS 84 longitude/latitude.
+ */
+
+export interface GpxWaypoint {
+  lon: number;
+  lat: number;
+  name: string;
+  description?: string;
+}
+
+export interface GpxTrack {
+  name: string;
+  coordinates: number[][]; // [lon, lat]
+}
+
+const coord = (v: number) => (Math.round(v * 1e8) / 1e8).toString();
+
+/**
+ * Build a GPX document (waypoints first, as required by the schema order wpt, rte, trk).
+ */
+export const createGPX = (name: string, waypoints: GpxWaypoint[], tracks: GpxTrack[]): string => {
+  const wpts = waypoints.map(w => `  <wpt lat="${coord(w.lat)}" lon="${coord(w.lon)}">
+    <name>${escapeXml(w.name)}</name>${w.description ? `
+    <desc>${escapeXml(w.description)}</desc>` : ''}
+    <sym>Flag, Blue</sym>
+  </wpt>`);
+  const trks = tracks.map(t => `  <trk>
+    <name>${escapeXml(t.name)}</name>
+    <trkseg>
+${t.coordinates.map(c => `      <trkpt lat="${coord(c[1])}" lon="${coord(c[0])}"></trkpt>`).join('\n')}
+    </trkseg>
+  </trk>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="topoma" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
+  <metadata>
+    <name>${escapeXml(name)}</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${[...wpts, ...trks].join('\n')}
+</gpx>
+`;
+};
@@ -0,0 +1,129 @@
+declare const JSZip: any;
+
+import { RASTER_EXTENSIONS, WORLD_FILE_EXTENSIONS } from './rasterService';
+
+/**
+ * تعرّف صيغة الملفات المستوردة (سحب وإفلات)
+ * Routing by extension, content sniffing for archives and unknown extensions,
+ * loose shapefile parts (.shp, .dbf, .prj...) are zipped back into one set,
+ * rasters keep their world file and .prj.
+ */
+
+export type ImportFormat = 'KML' | 'SHP' | 'DXF' | 'GEOJSON' | 'GPX' | 'XLS' | 'RASTER';
+
+export interface DetectedImport {
+  format: ImportFormat;
+  file: File;
+  sidecars?: File[];  // World file / .prj of a raster
+}
+
+// Outcome of one file import, shown in the import report
+export interface ImportResult {
+  fileName: string;
+  loaded: number;          // Features added to the map
+  skipped: string[];       // What was left out, with the reason
+  crsIssues: string[];     // Coordinate systems not recognised (assumed zone)
+  error?: string;          // Fatal error: nothing was loaded
+  subLayers?: string[];    // Sub-layers of the file (DXF layers, KML folders)
+  styled?: boolean;        // KML drawn with its own styles
+}
+
+export const createImportResult = (fileName: string): ImportResult => ({ fileName, loaded: 0, skipped: [], crsIssues: [] });
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  kml: 'KML', kmz: 'KML', dxf: 'DXF', geojson: 'GEOJSON', json: 'GEOJSON', gpx: 'GPX',
+  xlsx: 'XLS', xls: 'XLS', ods: 'XLS', csv: 'XLS', txt: 'XLS'
+};
+
+const SHAPEFILE_PARTS = ['shp', 'shx', 'dbf', 'prj', 'cpg'];
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+const baseName = (name: string) => name.replace(/\.[^.]*$/, '');
+
+// Zip archive: KMZ (doc.kml) or zipped shapefile
+const sniffZip = async (file: File): Promise<ImportFormat | null> => {
+  try {
+    const zip = await new JSZip().loadAsync(await file.arrayBuffer());
+    const names = Object.keys(zip.files);
+    if (names.some(n => /\.shp$/i.test(n))) return 'SHP';
+    if (names.some(n => /\.kml$/i.test(n))) return 'KML';
+  } catch {
+    // Not a readable archive
+  }
+  return null;
+};
+
+// First bytes of the file: zip or TIFF signature, XML root element, JSON, DXF group codes or delimited numbers
+const sniffFileFormat = async (file: File): Promise<ImportFormat | null> => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  if (head[0] === 0x50 && head[1] === 0x4b) return sniffZip(file);
+  if ((head[0] === 0x49 && head[1] === 0x49) || (head[0] === 0x4d && head[1] === 0x4d)) return 'RASTER';
+
+  const text = (await file.slice(0, 4096).text()).replace(/^\uFEFF/, '').trimStart();
+  if (/^[{[]/.test(text)) return /"type"\s*:/.test(text) ? 'GEOJSON' : null;
+  if (text.startsWith('<')) {
+    if (/<gpx[\s>]/i.test(text)) return 'GPX';
+    if (/<kml[\s>]/i.test(text)) return 'KML';
+    return null;
+  }
+  if (/^0\s*\r?\n\s*SECTION/.test(text)) return 'DXF';
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 5);
+  if (lines.length > 0 && lines.every(l => /[-+]?\d+([.,]\d+)?[\s;,\t|]+[-+]?\d+([.,]\d+)?/.test(l))) return 'XLS';
+  return null;
+};
+
+/**
+ * Sort the dropped files by import format; the names of unrecognised files are returned apart.
+ */
+export const detectDroppedFiles = async (files: File[]): Promise<{ imports: DetectedImport[], ignored: string[] }> => {
+  const imports: DetectedImport[] = [];
+  const ignored: string[] = [];
+
+  // Rasters with the world file / .prj of the same base name (a .prj next to a .shp stays with the shapefile)
+  const rasters = files.filter(f => RASTER_EXTENSIONS.includes(extensionOf(f.name)));
+  const rasterNames = new Set(rasters.map(f => baseName(f.name).toLowerCase()));
+  const shapeNames = new Set(files.filter(f => extensionOf(f.name) === 'shp').map(f => baseName(f.name).toLowerCase()));
+  const isRasterSidecar = (f: File) => {
+    const ext = extensionOf(f.name), key = baseName(f.name).toLowerCase();
+    return rasterNames.has(key) && (WORLD_FILE_EXTENSIONS.includes(ext) || (ext === 'prj' && !shapeNames.has(key)));
+  };
+  rasters.forEach(file => imports.push({
+    format: 'RASTER',
+    file,
+    sidecars: files.filter(f => isRasterSidecar(f) && baseName(f.name).toLowerCase() === baseName(file.name).toLowerCase())
+  }));
+
+  // Loose shapefile parts, grouped by base name
+  const shapefileSets = new Map<string, File[]>();
+  const others: File[] = [];
+  files.forEach(file => {
+    if (rasters.includes(file) || isRasterSidecar(file)) return;
+    if (SHAPEFILE_PARTS.includes(extensionOf(file.name))) {
+      const key = baseName(file.name).toLowerCase();
+      shapefileSets.set(key, [...(shapefileSets.get(key) || []), file]);
+    } else {
+      others.push(file);
+    }
+  });
+  for (const parts of shapefileSets.values()) {
+    const shpPart = parts.find(p => extensionOf(p.name) === 'shp');
+    if (!shpPart) {
+      ignored.push(...parts.map(p => p.name));
+      continue;
+    }
+    const zip = new JSZip();
+    parts.forEach(p => zip.file(p.name, p));
+    const blob: Blob = await zip.generateAsync({ type: 'blob' });
+    imports.push({ format: 'SHP', file: new File([blob], `${baseName(shpPart.name)}.zip`, { type: 'application/zip' }) });
+  }
+
+  for (const file of others) {
+    const ext = extensionOf(file.name);
+    const format = ext !== 'zip' && EXTENSION_FORMATS[ext] ? EXTENSION_FORMATS[ext] : await sniffFileFormat(file);
+    if (!format) ignored.push(file.name);
+    // A KMZ sent as .zip: the KML loader recognises archives by their extension
+    else if (format === 'KML' && ext === 'zip') imports.push({ format, file: new File([file], `${baseName(file.name)}.kmz`) });
+    else imports.push({ format, file });
+  }
+  return { imports, ignored };
+};
@@ -0,0 +1,152 @@
+import { escapeXml } from './geoService';
+
+/**
+ * كاتب KML للمشروع (OGC KML 2.2)
+ * One Folder per layer with its own Style (line, fill, marker), Placemarks with ExtendedData.
+ * Coordinates are WGS 84 longitude/latitude.
+ * On import, the Folder path of each Placemark is kept as its sub-layer.
+ */
+
+export interface KmlFeature {
+  geometryType: 'Point' | 'LineString' | 'Polygon';
+  parts: number[][][]; // [lon, lat] — Point: [[xy]], LineString: [coords], Polygon: rings (outer first)
+  label: string;
+  data: Record<string, string | number>;
+}
+
+export interface KmlStyle {
+  stroke: string;  // CSS colour (#rrggbb or rgba())
+  width: number;
+  fill: string;
+  marker: string;
+}
+
+export interface KmlFolder {
+  name: string;
+  style: KmlStyle;
+  features: KmlFeature[];
+}
+
+// Paddle icon tinted with IconStyle/color (white icons take the colour as is)
+const MARKER_ICON = 'http://maps.google.com/mapfiles/kml/paddle/wht-blank.png';
+
+const hex2 = (v: number) => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, '0');
+
+// CSS colour -> KML aabbggrr
+export const toKmlColor = (css: string) => {
+  let r = 0, g = 0, b = 0, a = 1;
+  const hex = css.match(/^#([0-9a-f]{6})$/i);
+  const rgba = css.match(/^rgba?\(([^)]+)\)$/i);
+  if (hex) {
+    r = parseInt(hex[1].slice(0, 2), 16);
+    g = parseInt(hex[1].slice(2, 4), 16);
+    b = parseInt(hex[1].slice(4, 6), 16);
+  } else if (rgba) {
+    [r, g, b, a = 1] = rgba[1].split(',').map(v => parseFloat(v));
+  }
+  return hex2(a * 255) + hex2(b) + hex2(g) + hex2(r);
+};
+
+const num = (v: number) => (Math.round(v * 1e8) / 1e8).toString();
+const coordinates = (coords: number[][]) => coords.map(c => `${num(c[0])},${num(c[1])},0`).join(' ');
+
+// KML rings are closed
+const closeRing = (ring: number[][]) => ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+  ? [...ring, ring[0]]
+  : ring;
+
+const writeGeometry = (f: KmlFeature) => {
+  if (f.geometryType === 'Point') return `<Point><coordinates>${coordinates(f.parts[0])}</coordinates></Point>`;
+  if (f.geometryType === 'LineString') return `<LineString><tessellate>1</tessellate><coordinates>${coordinates(f.parts[0])}</coordinates></LineString>`;
+  const [outer, ...holes] = f.parts.map(closeRing);
+  return `<Polygon><tessellate>1</tessellate>`
+    + `<outerBoundaryIs><LinearRing><coordinates>${coordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>`
+    + holes.map(h => `<innerBoundaryIs><LinearRing><coordinates>${coordinates(h)}</coordinates></LinearRing></innerBoundaryIs>`).join('')
+    + `</Polygon>`;
+};
+
+const writePlacemark = (f: KmlFeature, styleId: string) => {
+  const data = Object.entries(f.data)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('');
+  return `    <Placemark>
+      <name>${escapeXml(f.label)}</name>
+      <styleUrl>#${styleId}</styleUrl>
+      <ExtendedData>${data}</ExtendedData>
+      ${writeGeometry(f)}
+    </Placemark>`;
+};
+
+const writeStyle = (style: KmlStyle, id: string) => `  <Style id="${id}">
+    <IconStyle><color>${toKmlColor(style.marker)}</color><scale>1</scale><Icon><href>${MARKER_ICON}</href></Icon><hotSpot x="0.5" y="0" xunits="fraction" yunits="fraction"/></IconStyle>
+    <LabelStyle><scale>0.9</scale></LabelStyle>
+    <LineStyle><color>${toKmlColor(style.stroke)}</color><width>${style.width}</width></LineStyle>
+    <PolyStyle><color>${toKmlColor(style.fill)}</color><outline>1</outline></PolyStyle>
+  </Style>`;
+
+/**
+ * Build the KML document of a project (empty folders are skipped).
+ */
+export const createProjectKML = (name: string, folders: KmlFolder[]): string => {
+  const used = folders.filter(f => f.features.length > 0);
+  const styles = used.map((folder, i) => writeStyle(folder.style, `style${i + 1}`)).join('\n');
+  const body = used.map((folder, i) => `  <Folder>
+    <name>${escapeXml(folder.name)}</name>
+${folder.features.map(f => writePlacemark(f, `style${i + 1}`)).join('\n')}
+  </Folder>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+  <name>${escapeXml(name)}</name>
+${styles}
+${body}
+</Document>
+</kml>
+`;
+};
+
+// ---------------------------------------------------------------------------
+// Lecture (Folder structure, kept by ol/format/KML through ExtendedData)
+
+// Temporary attribute holding the Folder path of a Placemark
+export const KML_FOLDER_KEY = '__kmlFolder';
+
+const childText = (element: Element, tag: string) =>
+  Array.from(element.children).find(c => c.localName === tag)?.textContent?.trim() || '';
+
+/**
+ * Write the Folder path ("Parcelles / Lot A") of every Placemark as an ExtendedData Data element,
+ * so it becomes a feature property; returns the folder paths in document order.
+ */
+export const markKmlFolders = (doc: Document): string[] => {
+  const folders: string[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'Placemark')).forEach(placemark => {
+    const names: string[] = [];
+    for (let parent = placemark.parentElement; parent; parent = parent.parentElement) {
+      if (parent.localName === 'Folder') names.unshift(childText(parent, 'name') || 'Dossier');
+    }
+    if (names.length === 0) return;
+    const path = names.join(' / ');
+    if (!folders.includes(path)) folders.push(path);
+
+    const ns = placemark.namespaceURI;
+    let extendedData = Array.from(placemark.children).find(c => c.localName === 'ExtendedData');
+    if (!extendedData) {
+      extendedData = doc.createElementNS(ns, 'ExtendedData');
+      placemark.appendChild(extendedData);
+    }
+    const data = doc.createElementNS(ns, 'Data');
+    data.setAttribute('name', KML_FOLDER_KEY);
+    const value = doc.createElementNS(ns, 'value');
+    value.textContent = path;
+    data.appendChild(value);
+    extendedData.appendChild(data);
+  });
+  return folders;
+};
+
+// Style or StyleMap defined in the document (otherwise ol/format/KML falls back to its yellow pushpin)
+export const hasKmlStyles = (doc: Document) =>
+  doc.getElementsByTagNameNS('*', 'Style').length > 0 || doc.getElementsByTagNameNS('*', 'StyleMap').length > 0;
@@ -0,0 +1,307 @@
+declare const jspdf: any;
+
+import { LAMBERT_ZONES } from './geoService';
+
+/**
+ * مولد مخطط PDF (Plan de situation)
+ * Map frame at an exact scale, Lambert coordinate frame, title block (cartouche),
+ * graphic scale bar, north arrow and legend. Units are millimetres; text and
+ * symbols grow with the paper size (A4 = 1).
+ */
+
+export type PaperFormat = 'A4' | 'A3' | 'A0';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+// Portrait sizes (mm) and the resolution of the map image
+export const PAPER_SIZES: Record<PaperFormat, { width: number, height: number, dpi: number }> = {
+  A4: { width: 210, height: 297, dpi: 300 },
+  A3: { width: 297, height: 420, dpi: 250 },
+  A0: { width: 841, height: 1189, dpi: 150 },
+};
+
+export interface PlanLegendItem {
+  label: string;
+  color: string; // hex
+  symbol: 'polygon' | 'line' | 'point' | 'dash';
+}
+
+export interface PlanPDFOptions {
+  paper: PaperFormat;
+  orientation: PaperOrientation;
+  scale: number;               // 1:scale
+  map: HTMLCanvasElement;      // rendered on exactly the frame returned by getPlanMapFrame
+  extent: number[];            // extent of the map image in zoneCode
+  zoneCode: string;            // Lambert zone (a plan in WGS 84 would not be at scale)
+  project: string;
+  commune: string;
+  date: string;
+  operator: string;
+  projection: string;          // label of the zone
+  legend: PlanLegendItem[];
+  gridInterval?: number;       // spacing of the frame ticks (zone units), default about 5 per width
+}
+
+const MARGIN = 10;
+const LABEL_BAND = 5;          // coordinate labels around the frame
+const CARTOUCHE_HEIGHT = 36;
+const PT_TO_MM = 0.3528;
+
+const getPageSize = (paper: PaperFormat, orientation: PaperOrientation) => {
+  const size = PAPER_SIZES[paper];
+  return orientation === 'portrait' ? { width: size.width, height: size.height } : { width: size.height, height: size.width };
+};
+
+const getUnit = (paper: PaperFormat) => PAPER_SIZES[paper].width / 210;
+
+// Position and size (mm) of the map frame on the page
+export const getPlanMapFrame = (paper: PaperFormat, orientation: PaperOrientation) => {
+  const page = getPageSize(paper, orientation);
+  const k = getUnit(paper);
+  const offset = (MARGIN + LABEL_BAND) * k;
+  return {
+    x: offset,
+    y: offset,
+    width: page.width - 2 * offset,
+    height: page.height - offset - (LABEL_BAND + CARTOUCHE_HEIGHT + MARGIN) * k
+  };
+};
+
+// 1, 2 or 5 x 10^n, closest to rough
+const niceStep = (rough: number) => {
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  const n = rough / power;
+  return (n < 1.5 ? 1 : n < 3.5 ? 2 : n < 7.5 ? 5 : 10) * power;
+};
+
+// 1, 2 or 5 x 10^n, not above value
+const niceFloor = (value: number) => {
+  const power = Math.pow(10, Math.floor(Math.log10(value)));
+  const n = value / power;
+  return (n >= 5 ? 5 : n >= 2 ? 2 : 1) * power;
+};
+
+// "412 500" (jsPDF standard fonts have no narrow no-break space, so no toLocaleString)
+const formatCoordinate = (value: number, decimals: number) => {
+  const [int, frac] = Math.abs(value).toFixed(decimals).split('.');
+  const grouped = int.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+  return `${value < 0 ? '-' : ''}${grouped}${frac ? '.' + frac : ''}`;
+};
+
+const formatDistance = (metres: number) => metres >= 1000 ? `${metres / 1000} km` : `${metres} m`;
+
+type Frame = ReturnType<typeof getPlanMapFrame>;
+
+// Frame with ticks, labels and grid crosses in the coordinates of the zone (metres)
+const drawCoordinateFrame = (doc: any, frame: Frame, extent: number[], k: number, interval?: number) => {
+  const step = interval || niceStep((extent[2] - extent[0]) / 5);
+  const label = (v: number) => formatCoordinate(v, 0);
+  const toX = (v: number) => frame.x + (v - extent[0]) / (extent[2] - extent[0]) * frame.width;
+  const toY = (v: number) => frame.y + (extent[3] - v) / (extent[3] - extent[1]) * frame.height;
+  const tick = 2 * k;
+  const fontSize = 6 * k;
+  const textHeight = fontSize * PT_TO_MM;
+  const corner = 4 * k; // no label this close to a corner
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.15 * k);
+
+  const xs: number[] = [];
+  for (let v = Math.ceil(extent[0] / step) * step; v <= extent[2]; v += step) xs.push(v);
+  const ys: number[] = [];
+  for (let v = Math.ceil(extent[1] / step) * step; v <= extent[3]; v += step) ys.push(v);
+
+  xs.forEach(v => {
+    const x = toX(v);
+    doc.line(x, frame.y, x, frame.y + tick);
+    doc.line(x, frame.y + frame.height, x, frame.y + frame.height - tick);
+    if (x - frame.x < corner || frame.x + frame.width - x < corner) return;
+    doc.text(label(v), x, frame.y - 1 * k, { align: 'center' });
+    doc.text(label(v), x, frame.y + frame.height + 1 * k + textHeight, { align: 'center' });
+  });
+
+  ys.forEach(v => {
+    const y = toY(v);
+    doc.line(frame.x, y, frame.x + tick, y);
+    doc.line(frame.x + frame.width, y, frame.x + frame.width - tick, y);
+    if (y - frame.y < corner || frame.y + frame.height - y < corner) return;
+    const half = doc.getTextWidth(label(v)) / 2;
+    // Rotated text runs upwards from its anchor, glyphs on the left of the baseline
+    doc.text(label(v), frame.x - 1 * k, y + half, { angle: 90 });
+    doc.text(label(v), frame.x + frame.width + 1 * k + textHeight, y + half, { angle: 90 });
+  });
+
+  // Grid crosses on the imagery
+  doc.setDrawColor(255, 255, 255);
+  doc.setLineWidth(0.2 * k);
+  const arm = 1.5 * k;
+  xs.forEach(v => ys.forEach(w => {
+    const x = toX(v), y = toY(w);
+    if (x - frame.x < arm || frame.x + frame.width - x < arm || y - frame.y < arm || frame.y + frame.height - y < arm) return;
+    doc.line(x - arm, y, x + arm, y);
+    doc.line(x, y - arm, x, y + arm);
+  }));
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.4 * k);
+  doc.rect(frame.x, frame.y, frame.width, frame.height);
+};
+
+// Grid north (the frame is aligned on the projection axes)
+const drawNorthArrow = (doc: any, cx: number, cy: number, k: number) => {
+  const r = 6 * k;
+  doc.setLineWidth(0.2 * k);
+  doc.setDrawColor(0, 0, 0);
+  doc.setFillColor(255, 255, 255);
+  doc.circle(cx, cy, r, 'FD');
+  doc.setFillColor(0, 0, 0);
+  doc.triangle(cx, cy - 0.35 * r, cx - 0.35 * r, cy + 0.75 * r, cx, cy + 0.45 * r, 'F');
+  doc.setFillColor(255, 255, 255);
+  doc.triangle(cx, cy - 0.35 * r, cx + 0.35 * r, cy + 0.75 * r, cx, cy + 0.45 * r, 'FD');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7 * k);
+  doc.text('N', cx, cy - 0.45 * r, { align: 'center' });
+};
+
+// Alternating black / white graphic scale, as long as possible within maxWidth
+const drawScaleBar = (doc: any, x: number, y: number, maxWidth: number, scale: number, k: number) => {
+  const metresPerMm = scale / 1000;
+  const length = niceFloor(maxWidth * metresPerMm);
+  const width = length / metresPerMm;
+  const segments = 4;
+  const height = 1.8 * k;
+
+  doc.setLineWidth(0.15 * k);
+  doc.setDrawColor(0, 0, 0);
+  for (let i = 0; i < segments; i++) {
+    if (i % 2 === 0) doc.setFillColor(0, 0, 0);
+    else doc.setFillColor(255, 255, 255);
+    doc.rect(x + i * width / segments, y, width / segments, height, 'FD');
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6 * k);
+  const labelY = y + height + 1 * k + 6 * k * PT_TO_MM;
+  doc.text('0', x, labelY, { align: 'center' });
+  doc.text(formatDistance(length / 2), x + width / 2, labelY, { align: 'center' });
+  doc.text(formatDistance(length), x + width, labelY, { align: 'center' });
+};
+
+const drawLegendSymbol = (doc: any, item: PlanLegendItem, x: number, y: number, k: number) => {
+  const w = 6 * k, h = 3 * k;
+  doc.setDrawColor(item.color);
+  doc.setFillColor(item.color);
+  doc.setLineWidth(0.5 * k);
+  if (item.symbol === 'polygon') {
+    doc.setFillColor(255, 255, 255);
+    doc.rect(x, y, w, h, 'FD');
+  } else if (item.symbol === 'point') {
+    doc.circle(x + w / 2, y + h / 2, 1 * k, 'F');
+  } else {
+    if (item.symbol === 'dash') doc.setLineDashPattern([1 * k, 0.8 * k], 0);
+    doc.line(x, y + h / 2, x + w, y + h / 2);
+    doc.setLineDashPattern([], 0);
+  }
+};
+
+// Title block: project / information / scale / legend
+const drawCartouche = (doc: any, o: PlanPDFOptions, box: { x: number, y: number, width: number, height: number }, k: number) => {
+  const widths = [0.32, 0.26, 0.2, 0.22].map(f => f * box.width);
+  const cols = widths.map((_, i) => box.x + widths.slice(0, i).reduce((a, b) => a + b, 0));
+  const pad = 2.5 * k;
+  const line = (size: number) => size * PT_TO_MM * 1.35;
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.4 * k);
+  doc.rect(box.x, box.y, box.width, box.height);
+  doc.setLineWidth(0.2 * k);
+  cols.slice(1).forEach(x => doc.line(x, box.y, x, box.y + box.height));
+
+  // 1. Project
+  let y = box.y + pad + line(7 * k);
+  doc.setTextColor(100, 100, 100);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7 * k);
+  doc.text('PLAN DE SITUATION', cols[0] + pad, y);
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(12 * k);
+  const title = doc.splitTextToSize(o.project || 'Sans titre', widths[0] - 2 * pad).slice(0, 2);
+  title.forEach((t: string) => {
+    y += line(12 * k);
+    doc.text(t, cols[0] + pad, y);
+  });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8 * k);
+  doc.text(`Commune : ${o.commune || '-'}`, cols[0] + pad, box.y + box.height - pad);
+
+  // 2. Information
+  const info = [
+    ['Date', o.date],
+    ['Opérateur', o.operator || '-'],
+    ['Projection', o.projection],
+    ['Échelle', `1:${o.scale}`],
+  ];
+  y = box.y + pad;
+  info.forEach(([label, value]) => {
+    y += line(7 * k);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7 * k);
+    doc.text(label, cols[1] + pad, y);
+    y += line(8 * k);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8 * k);
+    doc.text(doc.splitTextToSize(value, widths[1] - 2 * pad)[0], cols[1] + pad, y);
+  });
+
+  // 3. Scale
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10 * k);
+  doc.text(`1:${o.scale}`, cols[2] + widths[2] / 2, box.y + pad + line(10 * k), { align: 'center' });
+  drawScaleBar(doc, cols[2] + pad + 2 * k, box.y + box.height / 2 - 2 * k, widths[2] - 2 * pad - 4 * k, o.scale, k);
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(6 * k);
+  doc.setTextColor(100, 100, 100);
+  doc.text('Imprimer à 100 % (sans ajustement)', cols[2] + widths[2] / 2, box.y + box.height - pad, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  // 4. Legend
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7 * k);
+  y = box.y + pad + line(7 * k);
+  doc.text('Légende', cols[3] + pad, y);
+  doc.setFont('helvetica', 'normal');
+  const rowHeight = 4.5 * k;
+  const maxRows = Math.floor((box.y + box.height - pad - y) / rowHeight);
+  o.legend.slice(0, maxRows).forEach((item, i) => {
+    const rowY = y + 1.5 * k + i * rowHeight;
+    drawLegendSymbol(doc, item, cols[3] + pad, rowY, k);
+    doc.setFontSize(7 * k);
+    doc.setTextColor(0, 0, 0);
+    doc.text(doc.splitTextToSize(item.label, widths[3] - 2 * pad - 8 * k)[0], cols[3] + pad + 8 * k, rowY + 2.5 * k);
+  });
+};
+
+/**
+ * Assemble the plan: map image, coordinate frame, north arrow and cartouche.
+ */
+export const createPlanPDF = (o: PlanPDFOptions): Blob => {
+  if (!LAMBERT_ZONES[o.zoneCode]) throw new Error('Plan PDF: zone Lambert requise');
+  const k = getUnit(o.paper);
+  const frame = getPlanMapFrame(o.paper, o.orientation);
+
+  const doc = new jspdf.jsPDF({ orientation: o.orientation, unit: 'mm', format: o.paper.toLowerCase(), compress: true });
+  doc.setProperties({ title: o.project || 'Plan de situation', creator: 'topoma' });
+
+  doc.addImage(o.map, 'JPEG', frame.x, frame.y, frame.width, frame.height, undefined, 'FAST');
+  drawCoordinateFrame(doc, frame, o.extent, k, o.gridInterval);
+  drawNorthArrow(doc, frame.x + frame.width - 10 * k, frame.y + 10 * k, k);
+  drawCartouche(doc, o, {
+    x: frame.x,
+    y: frame.y + frame.height + LABEL_BAND * k,
+    width: frame.width,
+    height: CARTOUCHE_HEIGHT * k
+  }, k);
+
+  return doc.output('blob');
+};
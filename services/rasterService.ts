@@ -0,0 +1,166 @@
+declare const UTIF: any;
+
+import { LAMBERT_ZONES, detectPrjZone } from './geoService';
+
+/**
+ * قراءة الصور المرجعية المحلية (GeoTIFF / صورة + World File)
+ * GeoTIFF georeferencing from its tags (tie point + pixel scale, GeoKeys), or an image with its
+ * world file (.tfw / .jgw / .pgw / .wld) and .prj. Rotated rasters are not supported.
+ */
+
+export interface GeoRaster {
+  url: string;        // Object URL of the image shown on the map (PNG for a TIFF)
+  extent: number[];   // [minX, minY, maxX, maxY] in projection
+  projection: string; // zone code
+  width: number;      // Source size in pixels
+  height: number;
+}
+
+export const RASTER_EXTENSIONS = ['tif', 'tiff', 'jpg', 'jpeg', 'png'];
+export const WORLD_FILE_EXTENSIONS = ['tfw', 'tifw', 'tiffw', 'jgw', 'jpgw', 'jpegw', 'pgw', 'pngw', 'wld'];
+
+// Longest side kept for display (the TIFF is decoded in full, then resampled)
+const MAX_RASTER_SIDE = 8000;
+// Larger TIFFs are refused (decoded RGBA would not fit in memory)
+const MAX_TIFF_PIXELS = 100e6;
+
+const TAG_MODEL_PIXEL_SCALE = 't33550';
+const TAG_MODEL_TIEPOINT = 't33922';
+const TAG_MODEL_TRANSFORMATION = 't34264';
+const TAG_GEO_KEY_DIRECTORY = 't34735';
+const TAG_GDAL_NODATA = 't42113';
+
+const KEY_GT_RASTER_TYPE = 1025;
+const KEY_GEOGRAPHIC_TYPE = 2048;
+const KEY_PROJECTED_CS_TYPE = 3072;
+const RASTER_PIXEL_IS_POINT = 2;
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+const isSupportedZone = (code: string) => code === 'EPSG:4326' || code === 'EPSG:3857' || !!LAMBERT_ZONES[code];
+
+// World file: pixel size X, rotations, pixel size Y (negative), centre of the upper-left pixel
+export const parseWorldFile = (text: string): number[] | null => {
+  const values = text.trim().split(/\s+/).map(Number);
+  if (values.length < 6 || values.slice(0, 6).some(v => !isFinite(v))) return null;
+  return values.slice(0, 6);
+};
+
+export const worldFileExtent = (world: number[], width: number, height: number): number[] => {
+  const [a, d, b, e, c, f] = world;
+  if (d !== 0 || b !== 0) throw new Error('Image avec rotation (World File) non supportée.');
+  const minX = c - a / 2, maxY = f - e / 2;
+  return [minX, maxY + height * e, minX + width * a, maxY];
+};
+
+// GeoKey value from the GeoKeyDirectory (SHORT values only)
+const readGeoKey = (directory: number[] | undefined, key: number): number | undefined => {
+  if (!directory) return undefined;
+  for (let i = 4; i + 3 < directory.length; i += 4) {
+    if (directory[i] === key && directory[i + 1] === 0) return directory[i + 3];
+  }
+  return undefined;
+};
+
+// EPSG code of the GeoKeys (projected first), null if missing or user-defined
+export const readGeoKeyZone = (ifd: any): string | null => {
+  const directory = ifd[TAG_GEO_KEY_DIRECTORY];
+  const projected = readGeoKey(directory, KEY_PROJECTED_CS_TYPE);
+  const geographic = readGeoKey(directory, KEY_GEOGRAPHIC_TYPE);
+  const code = projected && projected !== 32767 ? `EPSG:${projected}` : geographic && geographic !== 32767 ? `EPSG:${geographic}` : null;
+  return code && isSupportedZone(code) ? code : null;
+};
+
+// Extent from the tie point + pixel scale, or from a model transformation without rotation
+export const readGeoTiffExtent = (ifd: any, width: number, height: number): number[] | null => {
+  const matrix: number[] | undefined = ifd[TAG_MODEL_TRANSFORMATION];
+  let minX: number, maxY: number, sizeX: number, sizeY: number;
+  if (matrix && matrix.length >= 8) {
+    if (matrix[1] !== 0 || matrix[4] !== 0) throw new Error('GeoTIFF avec rotation non supporté.');
+    [sizeX, sizeY, minX, maxY] = [matrix[0], -matrix[5], matrix[3], matrix[7]];
+  } else {
+    const scale: number[] | undefined = ifd[TAG_MODEL_PIXEL_SCALE];
+    const tie: number[] | undefined = ifd[TAG_MODEL_TIEPOINT];
+    if (!scale || !tie || tie.length < 6) return null;
+    [sizeX, sizeY] = scale;
+    minX = tie[3] - tie[0] * sizeX;
+    maxY = tie[4] + tie[1] * sizeY;
+  }
+  // PixelIsPoint: the tie point is the centre of the pixel
+  if (readGeoKey(ifd[TAG_GEO_KEY_DIRECTORY], KEY_GT_RASTER_TYPE) === RASTER_PIXEL_IS_POINT) {
+    minX -= sizeX / 2;
+    maxY += sizeY / 2;
+  }
+  return [minX, maxY - height * sizeY, minX + width * sizeX, maxY];
+};
+
+// Decoded TIFF as a PNG object URL (NoData colour made transparent, resampled under MAX_RASTER_SIDE)
+const tiffToImageUrl = async (ifd: any, width: number, height: number): Promise<string> => {
+  const rgba: Uint8Array = UTIF.toRGBA8(ifd);
+  const noDataValue = parseFloat(String(ifd[TAG_GDAL_NODATA] ?? ''));
+  const noData = isFinite(noDataValue) && noDataValue >= 0 && noDataValue <= 255 ? noDataValue : null;
+
+  const scale = Math.min(1, MAX_RASTER_SIDE / Math.max(width, height));
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = outWidth;
+  canvas.height = outHeight;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(outWidth, outHeight);
+  for (let j = 0; j < outHeight; j++) {
+    const row = Math.min(height - 1, Math.floor((j + 0.5) / scale));
+    for (let i = 0; i < outWidth; i++) {
+      const s = (row * width + Math.min(width - 1, Math.floor((i + 0.5) / scale))) * 4, o = (j * outWidth + i) * 4;
+      out.data[o] = rgba[s];
+      out.data[o + 1] = rgba[s + 1];
+      out.data[o + 2] = rgba[s + 2];
+      out.data[o + 3] = noData !== null && rgba[s] === noData && rgba[s + 1] === noData && rgba[s + 2] === noData ? 0 : rgba[s + 3];
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error("Impossible de convertir l'image.");
+  return URL.createObjectURL(blob);
+};
+
+/**
+ * Georeferenced raster ready for an image layer. The world file and .prj are taken from the sidecar files
+ * (same base name); the zone comes from the GeoKeys, then the .prj, then fallbackZone (reported in crsIssue).
+ */
+export const readGeoRaster = async (file: File, sidecars: File[], fallbackZone: string): Promise<{ raster: GeoRaster, crsIssue?: string }> => {
+  const worldFile = sidecars.find(f => WORLD_FILE_EXTENSIONS.includes(extensionOf(f.name)));
+  const prjFile = sidecars.find(f => extensionOf(f.name) === 'prj');
+  const world = worldFile ? parseWorldFile(await worldFile.text()) : null;
+  if (worldFile && !world) throw new Error(`World File illisible : ${worldFile.name}`);
+  const prjZone = prjFile ? detectPrjZone(await prjFile.text()) : null;
+
+  let url: string, width: number, height: number, extent: number[] | null, keyZone: string | null = null;
+  if (/^tiff?$/.test(extensionOf(file.name))) {
+    const buffer = await file.arrayBuffer();
+    const ifd = UTIF.decode(buffer)[0];
+    if (!ifd) throw new Error('Fichier TIFF invalide.');
+    width = ifd.t256[0];
+    height = ifd.t257[0];
+    if (width * height > MAX_TIFF_PIXELS) throw new Error(`Image trop grande (${width} × ${height} px).`);
+    extent = world ? worldFileExtent(world, width, height) : readGeoTiffExtent(ifd, width, height);
+    if (!extent) throw new Error('TIFF sans géoréférencement : ajoutez son World File (.tfw).');
+    keyZone = readGeoKeyZone(ifd);
+    UTIF.decodeImages(buffer, [ifd]);
+    url = await tiffToImageUrl(ifd, width, height);
+  } else {
+    if (!world) throw new Error('World File manquant (.jgw / .pgw / .wld du même nom).');
+    const bitmap = await createImageBitmap(file);
+    width = bitmap.width;
+    height = bitmap.height;
+    bitmap.close();
+    extent = worldFileExtent(world, width, height);
+    url = URL.createObjectURL(file);
+  }
+
+  const projection = keyZone || prjZone || fallbackZone;
+  const crsIssue = keyZone || prjZone ? undefined
+    : prjFile ? `Projection du .prj non reconnue → ${fallbackZone}`
+    : `Aucune projection (GeoKeys / .prj) → ${fallbackZone}`;
+  return { raster: { url, extent, projection, width, height }, crsIssue };
+};
@@ -0,0 +1,179 @@
+/**
+ * كاتب Shapefile (ESRI Shapefile Technical Description, 1998)
+ * Point / PolyLine / Polygon in 2D, with the .shx index and dBase III attributes.
+ * Text fields are written in UTF-8 (declared by the .cpg file).
+ */
+
+export type ShapeType = 'Point' | 'PolyLine' | 'Polygon';
+
+export interface DbfField {
+  name: string;      // 10 characters max
+  type: 'C' | 'N';   // Character / Numeric
+  length: number;
+  decimals?: number;
+}
+
+export interface ShapeRecord {
+  parts: number[][][]; // Point: [[xy]], PolyLine: one part per line, Polygon: rings (outer first)
+  attributes: Record<string, string | number>;
+}
+
+export interface ShapefileSet {
+  shp: ArrayBuffer;
+  shx: ArrayBuffer;
+  dbf: ArrayBuffer;
+}
+
+const SHAPE_CODES: Record<ShapeType, number> = { Point: 1, PolyLine: 3, Polygon: 5 };
+const HEADER_SIZE = 100;
+
+// Shoelace sum: > 0 for a counter-clockwise ring
+const signedArea = (ring: number[][]) => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  return sum / 2;
+};
+
+// Shapefile rings: closed, outer ring clockwise, holes counter-clockwise
+const orientRings = (rings: number[][][]) => rings.map((ring, i) => {
+  const closed = ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+    ? [...ring, ring[0]]
+    : ring;
+  const clockwise = signedArea(closed) < 0;
+  return (i === 0) === clockwise ? closed : [...closed].reverse();
+});
+
+// reduce, not Math.min(...xs): spreading a large layer overflows the call stack
+const getBox = (points: number[][]) => {
+  if (points.length === 0) return [0, 0, 0, 0];
+  return points.reduce(
+    (box, p) => [Math.min(box[0], p[0]), Math.min(box[1], p[1]), Math.max(box[2], p[0]), Math.max(box[3], p[1])],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+};
+
+// 100-byte header shared by .shp and .shx
+const writeHeader = (view: DataView, fileBytes: number, shapeCode: number, box: number[]) => {
+  view.setInt32(0, 9994);                 // File code (big-endian)
+  view.setInt32(24, fileBytes / 2);       // File length in 16-bit words (big-endian)
+  view.setInt32(28, 1000, true);          // Version
+  view.setInt32(32, shapeCode, true);
+  box.forEach((v, i) => view.setFloat64(36 + i * 8, v, true));
+};
+
+const writeShapes = (type: ShapeType, records: ShapeRecord[]) => {
+  const shapeCode = SHAPE_CODES[type];
+  const contents = records.map(r => type === 'Polygon' ? orientRings(r.parts) : r.parts);
+  const contentSizes = contents.map(parts => type === 'Point'
+    ? 20
+    : 44 + 4 * parts.length + 16 * parts.reduce((n, p) => n + p.length, 0));
+
+  const shpBytes = HEADER_SIZE + contentSizes.reduce((sum, size) => sum + 8 + size, 0);
+  const shxBytes = HEADER_SIZE + 8 * records.length;
+  const shp = new ArrayBuffer(shpBytes);
+  const shx = new ArrayBuffer(shxBytes);
+  const shpView = new DataView(shp);
+  const shxView = new DataView(shx);
+
+  const box = getBox(contents.flat(2));
+  writeHeader(shpView, shpBytes, shapeCode, box);
+  writeHeader(shxView, shxBytes, shapeCode, box);
+
+  let offset = HEADER_SIZE;
+  contents.forEach((parts, i) => {
+    shxView.setInt32(HEADER_SIZE + i * 8, offset / 2);
+    shxView.setInt32(HEADER_SIZE + i * 8 + 4, contentSizes[i] / 2);
+
+    shpView.setInt32(offset, i + 1);                  // Record number (1-based)
+    shpView.setInt32(offset + 4, contentSizes[i] / 2);
+    let pos = offset + 8;
+    shpView.setInt32(pos, shapeCode, true);
+    if (type === 'Point') {
+      shpView.setFloat64(pos + 4, parts[0][0][0], true);
+      shpView.setFloat64(pos + 12, parts[0][0][1], true);
+    } else {
+      const points = parts.flat();
+      getBox(points).forEach((v, j) => shpView.setFloat64(pos + 4 + j * 8, v, true));
+      shpView.setInt32(pos + 36, parts.length, true);
+      shpView.setInt32(pos + 40, points.length, true);
+      pos += 44;
+      let start = 0;
+      parts.forEach(part => {
+        shpView.setInt32(pos, start, true);
+        pos += 4;
+        start += part.length;
+      });
+      points.forEach(p => {
+        shpView.setFloat64(pos, p[0], true);
+        shpView.setFloat64(pos + 8, p[1], true);
+        pos += 16;
+      });
+    }
+    offset += 8 + contentSizes[i];
+  });
+  return { shp, shx };
+};
+
+// UTF-8 bytes of a text field, cut on a character boundary
+const encodeText = (encoder: TextEncoder, text: string, length: number) => {
+  const bytes = encoder.encode(text);
+  if (bytes.length <= length) return bytes;
+  let cut = length;
+  while (cut > 0 && (bytes[cut] & 0xc0) === 0x80) cut--;
+  return bytes.slice(0, cut);
+};
+
+const writeDbf = (records: ShapeRecord[], fields: DbfField[]) => {
+  const encoder = new TextEncoder();
+  const headerSize = 32 + 32 * fields.length + 1;
+  const recordSize = 1 + fields.reduce((sum, f) => sum + f.length, 0);
+  const buffer = new ArrayBuffer(headerSize + recordSize * records.length + 1);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const now = new Date();
+
+  view.setUint8(0, 0x03);                           // dBase III, no memo
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerSize, true);
+  view.setUint16(10, recordSize, true);
+
+  fields.forEach((f, i) => {
+    const pos = 32 + i * 32;
+    bytes.set(encoder.encode(f.name.slice(0, 10).toUpperCase()), pos);
+    view.setUint8(pos + 11, f.type.charCodeAt(0));
+    view.setUint8(pos + 16, f.length);
+    view.setUint8(pos + 17, f.decimals || 0);
+  });
+  view.setUint8(headerSize - 1, 0x0d);
+
+  bytes.fill(0x20, headerSize, headerSize + recordSize * records.length);
+  records.forEach((r, i) => {
+    let pos = headerSize + i * recordSize + 1;      // after the deletion flag (' ')
+    fields.forEach(f => {
+      const value = r.attributes[f.name];
+      if (f.type === 'N') {
+        const num = typeof value === 'number' ? value : parseFloat(String(value));
+        if (isFinite(num)) {
+          const text = num.toFixed(f.decimals || 0).slice(0, f.length);
+          bytes.set(encoder.encode(text), pos + f.length - text.length);  // right-aligned
+        }
+      } else if (value !== undefined && value !== null) {
+        bytes.set(encodeText(encoder, String(value), f.length), pos);
+      }
+      pos += f.length;
+    });
+  });
+  view.setUint8(buffer.byteLength - 1, 0x1a);
+  return buffer;
+};
+
+/**
+ * Build the .shp / .shx / .dbf of one shapefile (all records of the same shape type).
+ */
+export const createShapefile = (type: ShapeType, records: ShapeRecord[], fields: DbfField[]): ShapefileSet => {
+  const { shp, shx } = writeShapes(type, records);
+  return { shp, shx, dbf: writeDbf(records, fields) };
+};
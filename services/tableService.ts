@@ -0,0 +1,255 @@
+declare const XLSX: any;
+
+import { projectFromZone } from './geoService';
+
+/**
+ * قراءة ملفات النقاط (CSV / TXT / XLSX)
+ * Delimited text with any separator, spreadsheets, column mapping and total-station layouts (PNEZD, PENZ...).
+ */
+
+export type ColumnRole = 'x' | 'y' | 'z' | 'label' | 'code';
+
+// Column index of each role (-1 = not mapped)
+export type ColumnMapping = Record<ColumnRole, number>;
+
+export type TableSource =
+  | { name: string, kind: 'text', text: string }
+  | { name: string, kind: 'workbook', sheets: Array<{ name: string, rows: string[][] }> };
+
+export interface TablePoint {
+  x: number;      // longitude (WGS 84)
+  y: number;      // latitude (WGS 84)
+  z?: number;
+  label?: string;
+  code?: string;
+  attributes: Record<string, string>; // Other (non-empty) columns, by header name
+}
+
+// Points linked by their code, in point-number order
+export interface CodedShape {
+  code: string;
+  geometryType: 'LineString' | 'Polygon';
+  coordinates: number[][]; // [lon, lat], open ring for polygons
+  labels: string[];        // Point numbers, in linking order
+}
+
+export interface RejectedRow {
+  sheet?: string;
+  row: number;    // 1-based line number in the file / sheet
+  reason: string;
+  values: string[];
+}
+
+export const COLUMN_ROLES: Array<{ role: ColumnRole, label: string }> = [
+  { role: 'x', label: 'X / Est' },
+  { role: 'y', label: 'Y / Nord' },
+  { role: 'z', label: 'Z / Altitude' },
+  { role: 'label', label: 'Matricule' },
+  { role: 'code', label: 'Code' },
+];
+
+export const DELIMITERS = [
+  { value: 'auto', label: 'Auto' },
+  { value: ';', label: 'Point-virgule (;)' },
+  { value: ',', label: 'Virgule (,)' },
+  { value: '\t', label: 'Tabulation' },
+  { value: ' ', label: 'Espace(s)' },
+  { value: '|', label: 'Barre (|)' },
+];
+
+// Total-station layouts: P = point number, N = northing (Y), E = easting (X), Z, D = description / code
+export const TABLE_LAYOUTS: Array<{ value: string, label: string, mapping: ColumnMapping }> = [
+  { value: 'PENZD', label: 'PENZD (Matricule, X, Y, Z, Code)', mapping: { label: 0, x: 1, y: 2, z: 3, code: 4 } },
+  { value: 'PNEZD', label: 'PNEZD (Matricule, Y, X, Z, Code)', mapping: { label: 0, y: 1, x: 2, z: 3, code: 4 } },
+  { value: 'PENZ', label: 'PENZ (Matricule, X, Y, Z)', mapping: { label: 0, x: 1, y: 2, z: 3, code: -1 } },
+  { value: 'PNEZ', label: 'PNEZ (Matricule, Y, X, Z)', mapping: { label: 0, y: 1, x: 2, z: 3, code: -1 } },
+  { value: 'XY', label: 'XY (X, Y)', mapping: { x: 0, y: 1, z: -1, label: -1, code: -1 } },
+];
+
+export const EMPTY_MAPPING: ColumnMapping = { x: -1, y: -1, z: -1, label: -1, code: -1 };
+
+const HEADER_PATTERNS: Record<ColumnRole, RegExp> = {
+  x: /^(x|e|est|east|easting|lng|lon|long|longitude)$/i,
+  y: /^(y|n|nord|north|northing|lat|latitude)$/i,
+  z: /^(z|h|alt|altitude|elevation|elev|cote|hauteur)$/i,
+  label: /^(id|p|pt|no|num|numero|numéro|n°|name|nom|label|point|matricule|mat)$/i,
+  code: /^(d|code|codes|desc|description|nature|type)$/i,
+};
+
+export const parseCoordinateValue = (val: any): number => {
+  if (typeof val === 'number') return val;
+  if (!val) return NaN;
+  let strVal = String(val).trim();
+  strVal = strVal.replace(/\s/g, '').replace(/\u00A0/g, '');
+  strVal = strVal.replace(',', '.');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(strVal)) return NaN;
+  return parseFloat(strVal);
+};
+
+export const readTableSource = async (file: File): Promise<TableSource> => {
+  if (/\.(xlsx|xls|ods)$/i.test(file.name)) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheets = workbook.SheetNames.map((name: string) => {
+      const rows: any[][] = XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: '', blankrows: true, raw: true });
+      return { name, rows: rows.map(r => r.map(v => String(v))) };
+    });
+    return { name: file.name, kind: 'workbook', sheets };
+  }
+  return { name: file.name, kind: 'text', text: await file.text() };
+};
+
+// Most regular separator over the first lines (same count on every line wins)
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20);
+  let best = ' ', bestScore = 0;
+  [';', '\t', ',', '|'].forEach(d => {
+    const counts = lines.map(l => splitLine(l, d).length - 1);
+    const min = Math.min(...counts);
+    const score = counts.every(c => c === counts[0]) ? min * 2 : min;
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// One line of delimited text, with "quoted" fields; spaces are collapsed when the delimiter is a space
+const splitLine = (line: string, delimiter: string): string[] => {
+  if (delimiter === ' ') return line.trim().split(/\s+/);
+  const cells: string[] = [];
+  let cell = '', quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+export const getTableRows = (source: TableSource, delimiter: string, sheetIndex = 0): string[][] => {
+  if (source.kind === 'workbook') return source.sheets[sheetIndex]?.rows || [];
+  const d = delimiter === 'auto' ? detectDelimiter(source.text) : delimiter;
+  return source.text.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim() ? splitLine(line, d) : []);
+};
+
+// A header row has text where the following rows have numbers
+export const hasHeaderRow = (rows: string[][]): boolean => {
+  const first = rows.find(r => r.some(c => c !== ''));
+  if (!first) return false;
+  const numericFirst = first.filter(c => !isNaN(parseCoordinateValue(c))).length;
+  return numericFirst < 2;
+};
+
+// Columns recognised by their header, else the PENZD order for 3+ numeric columns
+export const guessMapping = (rows: string[][], header: boolean): ColumnMapping => {
+  const mapping = { ...EMPTY_MAPPING };
+  const first = rows.find(r => r.some(c => c !== '')) || [];
+  if (header) {
+    (Object.keys(HEADER_PATTERNS) as ColumnRole[]).forEach(role => {
+      mapping[role] = first.findIndex(h => HEADER_PATTERNS[role].test(String(h).trim()));
+    });
+    if (mapping.x >= 0 && mapping.y >= 0) return mapping;
+  }
+  const sample = rows.filter(r => r.some(c => c !== ''))[header ? 1 : 0] || [];
+  const numeric = sample.map(c => !isNaN(parseCoordinateValue(c)));
+  if (!numeric[0] && numeric[1] && numeric[2]) return { ...TABLE_LAYOUTS[0].mapping, z: numeric[3] ? 3 : -1, code: sample.length > 4 ? 4 : -1 };
+  if (numeric[0] && numeric[1]) return { ...mapping, x: 0, y: 1, z: numeric[2] ? 2 : -1 };
+  return mapping;
+};
+
+/**
+ * Turn the table rows into WGS 84 points; every non-empty row that cannot be read is reported with its reason.
+ */
+export const mapTableRows = (rows: string[][], mapping: ColumnMapping, header: boolean, zoneCode: string) => {
+  const points: TablePoint[] = [];
+  const rejected: RejectedRow[] = [];
+  const firstIndex = rows.findIndex(r => r.some(c => c !== ''));
+  const mapped = new Set(Object.values(mapping));
+  const headerCells = header && firstIndex >= 0 ? rows[firstIndex] : [];
+  const columnName = (col: number) => String(headerCells[col] || '').trim() || `col${col + 1}`;
+  rows.forEach((values, index) => {
+    if (!values.some(c => c !== '')) return;      // blank line
+    if (header && index === firstIndex) return;
+    const reject = (reason: string) => rejected.push({ row: index + 1, reason, values });
+
+    const rawX = values[mapping.x] ?? '';
+    const rawY = values[mapping.y] ?? '';
+    if (rawX === '' || rawY === '') return reject(rawX === '' ? 'X manquant' : 'Y manquant');
+    const x = parseCoordinateValue(rawX);
+    const y = parseCoordinateValue(rawY);
+    if (isNaN(x)) return reject(`X non numérique « ${rawX} »`);
+    if (isNaN(y)) return reject(`Y non numérique « ${rawY} »`);
+
+    let z: number | undefined;
+    if (mapping.z >= 0 && (values[mapping.z] ?? '') !== '') {
+      z = parseCoordinateValue(values[mapping.z]);
+      if (isNaN(z)) return reject(`Z non numérique « ${values[mapping.z]} »`);
+    }
+
+    const wgs84 = projectFromZone(x, y, zoneCode);
+    if (!wgs84) return reject('Coordonnées hors de la zone choisie');
+    const attributes: Record<string, string> = {};
+    values.forEach((value, col) => {
+      if (!mapped.has(col) && value !== '') attributes[columnName(col)] = value;
+    });
+    points.push({
+      x: wgs84[0],
+      y: wgs84[1],
+      z,
+      label: mapping.label >= 0 && values[mapping.label] ? values[mapping.label] : undefined,
+      code: mapping.code >= 0 && values[mapping.code] ? values[mapping.code] : undefined,
+      attributes
+    });
+  });
+  return { points, rejected };
+};
+
+// Codes typed as "BOR, LIM PAR" -> ['BOR', 'LIM', 'PAR']
+export const parseCodeList = (text: string): string[] =>
+  text.split(/[\s,;]+/).map(c => c.trim().toUpperCase()).filter(Boolean);
+
+/**
+ * Link the points sharing a code (sorted by point number, file order otherwise):
+ * boundary codes give closed polygons (3 points or more), the other codes give lines (2 points or more).
+ */
+export const buildCodedShapes = (points: TablePoint[], closedCodes: string[]): CodedShape[] => {
+  const groups = new Map<string, Array<{ point: TablePoint, index: number }>>();
+  points.forEach((point, index) => {
+    const code = point.code?.trim().toUpperCase();
+    if (!code) return;
+    if (!groups.has(code)) groups.set(code, []);
+    groups.get(code)!.push({ point, index });
+  });
+
+  const shapes: CodedShape[] = [];
+  groups.forEach((members, code) => {
+    const ordered = [...members].sort((a, b) => {
+      const byLabel = a.point.label && b.point.label
+        ? a.point.label.localeCompare(b.point.label, undefined, { numeric: true, sensitivity: 'base' })
+        : 0;
+      return byLabel || a.index - b.index;
+    });
+    const closed = closedCodes.includes(code);
+    if (ordered.length < (closed ? 3 : 2)) return;
+    shapes.push({
+      code,
+      geometryType: closed ? 'Polygon' : 'LineString',
+      coordinates: ordered.map(m => [m.point.x, m.point.y]),
+      labels: ordered.map(m => m.point.label || `P${m.index + 1}`)
+    });
+  });
+  return shapes;
+};
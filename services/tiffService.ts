@@ -0,0 +1,419 @@
+import { LAMBERT_ZONES } from './geoService';
+
+/**
+ * كاتب GeoTIFF (Baseline TIFF + GeoKeys)
+ * Little-endian, 8 bits per sample, RGBA (alpha mask) or RGB (+ NoData).
+ * Tiles are stored uncompressed, LZW / Deflate (horizontal predictor) or JPEG (YCbCr).
+ * Switches to BigTIFF automatically when the file would exceed 4 GB.
+ */
+
+// TIFF field types
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_DOUBLE = 12;
+const TYPE_LONG8 = 16;
+const TYPE_SIZE: Record<number, number> = { [TYPE_ASCII]: 1, [TYPE_SHORT]: 2, [TYPE_LONG]: 4, [TYPE_RATIONAL]: 8, [TYPE_DOUBLE]: 8, [TYPE_LONG8]: 8 };
+
+interface TiffTag {
+  tag: number;
+  type: number;
+  values: number[] | string; // RATIONAL: numerator / denominator pairs
+}
+
+export interface GeoReference {
+  extent: number[]; // [minX, minY, maxX, maxY] in the CRS of zoneCode
+  pixelSize: number;
+  zoneCode: string; // EPSG:4326 or a Lambert zone
+}
+
+export type TiffCompression = 'none' | 'lzw' | 'deflate' | 'jpeg';
+
+export interface GeoTiffOptions {
+  tileSize?: number;
+  alpha?: boolean;   // RGBA with an unassociated alpha band (default), else RGB. Ignored with JPEG (always RGB)
+  noData?: number;   // RGB only: value (0-255, all bands) written where alpha < 50%, declared in GDAL_NODATA. Ignored with JPEG
+  compression?: TiffCompression; // default 'none'
+  quality?: number;  // JPEG quality, 0-1 (default 0.85)
+}
+
+export interface GeoTiffWriter {
+  addTile: (col: number, row: number, rgba: Uint8Array | Uint8ClampedArray) => Promise<void>;
+  finish: () => Blob;
+}
+
+const COMPRESSION_CODES: Record<TiffCompression, number> = { none: 1, lzw: 5, jpeg: 7, deflate: 8 };
+
+// GeoTIFF tags / keys (GeoTIFF 1.0 spec)
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GEO_ASCII_PARAMS = 34737;
+
+const KEY_GT_MODEL_TYPE = 1024;
+const KEY_GT_RASTER_TYPE = 1025;
+const KEY_GT_CITATION = 1026;
+const KEY_GEOGRAPHIC_TYPE = 2048;
+const KEY_GEOG_ANGULAR_UNITS = 2054;
+const KEY_PROJECTED_CS_TYPE = 3072;
+const KEY_PROJ_LINEAR_UNITS = 3076;
+
+const TAG_GDAL_NODATA = 42113;
+
+// Above this size (classic offsets are 32 bits) the file is written as BigTIFF
+const CLASSIC_TIFF_LIMIT = 0xFFFFFFFF - 16 * 1024 * 1024;
+
+// Georeferencing tags: tie point on the upper-left corner (PixelIsArea) + EPSG code
+export const buildGeoTags = (geo: GeoReference): TiffTag[] => {
+  const epsg = parseInt(geo.zoneCode.split(':')[1], 10);
+  const zone = LAMBERT_ZONES[geo.zoneCode];
+  const citation = `${zone ? zone.name : 'WGS 84'}|`;
+
+  const keys: number[][] = zone
+    ? [
+        [KEY_GT_MODEL_TYPE, 0, 1, 1],          // Projected
+        [KEY_GT_RASTER_TYPE, 0, 1, 1],         // PixelIsArea
+        [KEY_GT_CITATION, TAG_GEO_ASCII_PARAMS, citation.length, 0],
+        [KEY_PROJECTED_CS_TYPE, 0, 1, epsg],
+        [KEY_PROJ_LINEAR_UNITS, 0, 1, 9001],   // metre
+      ]
+    : [
+        [KEY_GT_MODEL_TYPE, 0, 1, 2],          // Geographic
+        [KEY_GT_RASTER_TYPE, 0, 1, 1],
+        [KEY_GT_CITATION, TAG_GEO_ASCII_PARAMS, citation.length, 0],
+        [KEY_GEOGRAPHIC_TYPE, 0, 1, 4326],
+        [KEY_GEOG_ANGULAR_UNITS, 0, 1, 9102],  // degree
+      ];
+
+  return [
+    { tag: TAG_MODEL_PIXEL_SCALE, type: TYPE_DOUBLE, values: [geo.pixelSize, geo.pixelSize, 0] },
+    { tag: TAG_MODEL_TIEPOINT, type: TYPE_DOUBLE, values: [0, 0, 0, geo.extent[0], geo.extent[3], 0] },
+    { tag: TAG_GEO_KEY_DIRECTORY, type: TYPE_SHORT, values: [1, 1, 0, keys.length, ...keys.flat()] },
+    { tag: TAG_GEO_ASCII_PARAMS, type: TYPE_ASCII, values: citation },
+  ];
+};
+
+const valueCount = (t: TiffTag) => {
+  if (typeof t.values === 'string') return t.values.length + 1;
+  return t.type === TYPE_RATIONAL ? t.values.length / 2 : t.values.length;
+};
+
+const writeValues = (view: DataView, offset: number, t: TiffTag) => {
+  if (typeof t.values === 'string') {
+    for (let i = 0; i < t.values.length; i++) view.setUint8(offset + i, t.values.charCodeAt(i) & 0x7f);
+    view.setUint8(offset + t.values.length, 0);
+    return;
+  }
+  t.values.forEach((v, i) => {
+    if (t.type === TYPE_SHORT) view.setUint16(offset + i * 2, v, true);
+    else if (t.type === TYPE_LONG) view.setUint32(offset + i * 4, v, true);
+    else if (t.type === TYPE_RATIONAL) view.setUint32(offset + i * 4, v, true);
+    else if (t.type === TYPE_DOUBLE) view.setFloat64(offset + i * 8, v, true);
+    else if (t.type === TYPE_LONG8) view.setBigUint64(offset + i * 8, BigInt(v), true);
+  });
+};
+
+// Serialise one IFD (classic or BigTIFF) placed at ifdOffset in the file
+const writeIFD = (tags: TiffTag[], ifdOffset: number, bigTiff: boolean): ArrayBuffer => {
+  const entrySize = bigTiff ? 20 : 12;
+  const inlineSize = bigTiff ? 8 : 4;
+  const countSize = bigTiff ? 8 : 2;
+  const ifdSize = countSize + tags.length * entrySize + inlineSize;
+
+  let size = ifdSize;
+  const extraOffsets = tags.map(t => {
+    const bytes = valueCount(t) * TYPE_SIZE[t.type];
+    if (bytes <= inlineSize) return 0;
+    const offset = size;
+    size += bytes + (bytes % 2);
+    return offset;
+  });
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  if (bigTiff) view.setBigUint64(0, BigInt(tags.length), true);
+  else view.setUint16(0, tags.length, true);
+
+  tags.forEach((t, i) => {
+    const entry = countSize + i * entrySize;
+    view.setUint16(entry, t.tag, true);
+    view.setUint16(entry + 2, t.type, true);
+    if (bigTiff) view.setBigUint64(entry + 4, BigInt(valueCount(t)), true);
+    else view.setUint32(entry + 4, valueCount(t), true);
+    const valueField = entry + (bigTiff ? 12 : 8);
+    if (extraOffsets[i]) {
+      if (bigTiff) view.setBigUint64(valueField, BigInt(ifdOffset + extraOffsets[i]), true);
+      else view.setUint32(valueField, ifdOffset + extraOffsets[i], true);
+      writeValues(view, extraOffsets[i], t);
+    } else {
+      writeValues(view, valueField, t);
+    }
+  });
+  // Next IFD offset stays 0 (single image)
+  return buffer;
+};
+
+// Canvas RGBA -> stored samples: clean alpha mask, or RGB with the NoData value outside the mask
+const convertTile = (rgba: Uint8Array | Uint8ClampedArray, alpha: boolean, noData?: number): Uint8Array => {
+  const pixels = rgba.length / 4;
+  if (alpha) {
+    const out = new Uint8Array(rgba);
+    for (let i = 0; i < pixels; i++) {
+      if (out[i * 4 + 3] === 0) out[i * 4] = out[i * 4 + 1] = out[i * 4 + 2] = 0;
+    }
+    return out;
+  }
+
+  const out = new Uint8Array(pixels * 3);
+  // Valid pixels that happen to equal the NoData colour are nudged by one level
+  const replacement = noData === undefined ? 0 : (noData < 255 ? noData + 1 : noData - 1);
+  for (let i = 0; i < pixels; i++) {
+    if (noData !== undefined && rgba[i * 4 + 3] < 128) {
+      out[i * 3] = out[i * 3 + 1] = out[i * 3 + 2] = noData;
+      continue;
+    }
+    const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2];
+    const isNoData = noData !== undefined && r === noData && g === noData && b === noData;
+    out[i * 3] = isNoData ? replacement : r;
+    out[i * 3 + 1] = isNoData ? replacement : g;
+    out[i * 3 + 2] = isNoData ? replacement : b;
+  }
+  return out;
+};
+
+// Predictor 2: each sample stores the difference with the same sample of the previous pixel
+const applyHorizontalPredictor = (data: Uint8Array, rowPixels: number, samples: number) => {
+  const rowBytes = rowPixels * samples;
+  for (let start = 0; start < data.length; start += rowBytes) {
+    for (let i = start + rowBytes - 1; i >= start + samples; i--) data[i] -= data[i - samples];
+  }
+};
+
+// LZW dictionary (prefix code, next byte) -> code, shared by all tiles; entries of a previous generation are stale
+let lzwCodes: Uint16Array | null = null;
+let lzwStamps: Uint32Array | null = null;
+let lzwGeneration = 0;
+
+// TIFF LZW (MSB-first codes of 9 to 12 bits, same code width switching as libtiff)
+const lzwEncode = (data: Uint8Array): Uint8Array => {
+  const CLEAR = 256, EOI = 257, FIRST = 258, MAX_CODE = 4094;
+  if (!lzwCodes || !lzwStamps) {
+    lzwCodes = new Uint16Array(4096 * 256);
+    lzwStamps = new Uint32Array(4096 * 256);
+  }
+  const codes = lzwCodes, stamps = lzwStamps;
+  let generation = ++lzwGeneration;
+
+  let out = new Uint8Array(Math.max(1024, data.length + (data.length >> 2)));
+  let length = 0;
+  let bitBuffer = 0, bitCount = 0;
+  let width = 9, nextCode = FIRST;
+
+  const emit = (code: number) => {
+    bitBuffer = (bitBuffer << width) | code;
+    bitCount += width;
+    while (bitCount >= 8) {
+      if (length === out.length) {
+        const grown = new Uint8Array(out.length * 2);
+        grown.set(out);
+        out = grown;
+      }
+      bitCount -= 8;
+      out[length++] = (bitBuffer >>> bitCount) & 0xff;
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+  // Called after each new dictionary entry
+  const nextEntry = () => {
+    nextCode++;
+    if (nextCode === MAX_CODE) {
+      emit(CLEAR);
+      generation = ++lzwGeneration;
+      nextCode = FIRST;
+      width = 9;
+    } else if (nextCode > (1 << width) - 1) {
+      width++;
+    }
+  };
+
+  emit(CLEAR);
+  if (data.length > 0) {
+    let prefix = data[0];
+    for (let i = 1; i < data.length; i++) {
+      const key = (prefix << 8) | data[i];
+      if (stamps[key] === generation) {
+        prefix = codes[key];
+        continue;
+      }
+      emit(prefix);
+      codes[key] = nextCode;
+      stamps[key] = generation;
+      nextEntry();
+      prefix = data[i];
+    }
+    emit(prefix);
+    nextEntry();
+  }
+  emit(EOI);
+  const result = new Uint8Array(length + (bitCount > 0 ? 1 : 0));
+  result.set(out.subarray(0, length));
+  if (bitCount > 0) result[length] = (bitBuffer << (8 - bitCount)) & 0xff; // last partial byte
+  return result;
+};
+
+// zlib stream (TIFF "Adobe Deflate") through the browser CompressionStream
+const deflateEncode = (data: Uint8Array): Promise<Blob> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Response(stream).blob();
+};
+
+// Chroma subsampling of the Y component, read from the SOF marker of a JPEG stream
+const readJpegSubsampling = (jpeg: Uint8Array): [number, number] => {
+  let i = 2;
+  while (i + 4 < jpeg.length && jpeg[i] === 0xff) {
+    const marker = jpeg[i + 1];
+    const segmentLength = (jpeg[i + 2] << 8) | jpeg[i + 3];
+    if (marker >= 0xc0 && marker <= 0xc2) {
+      const sampling = jpeg[i + 11]; // first component: H (high nibble), V (low nibble)
+      return [sampling >> 4, sampling & 0x0f];
+    }
+    i += 2 + segmentLength;
+  }
+  return [2, 2];
+};
+
+/**
+ * Tiled GeoTIFF writer: tiles (tileSize x tileSize RGBA, edge tiles padded)
+ * are compressed and kept as Blobs until finish() assembles header, tiles and IFD.
+ */
+export const createGeoTiffWriter = (width: number, height: number, geo: GeoReference, options: GeoTiffOptions = {}): GeoTiffWriter => {
+  const tileSize = options.tileSize || 512;
+  const compression = options.compression || 'none';
+  // JPEG has no alpha, and its lossy tiles would smear a NoData value: the outside of the mask is left black
+  const alpha = compression !== 'jpeg' && options.alpha !== false;
+  const noData = compression === 'jpeg' ? undefined : options.noData;
+  const samples = alpha ? 4 : 3;
+  const tilesAcross = Math.ceil(width / tileSize);
+  const tilesDown = Math.ceil(height / tileSize);
+  const tiles: Array<Blob | null> = new Array(tilesAcross * tilesDown).fill(null);
+  let jpegSubsampling: [number, number] = [2, 2];
+  let jpegCanvas: HTMLCanvasElement | null = null;
+
+  const encodeJpegTile = async (rgb: Uint8Array): Promise<Blob> => {
+    if (!jpegCanvas) {
+      jpegCanvas = document.createElement('canvas');
+      jpegCanvas.width = jpegCanvas.height = tileSize;
+    }
+    const ctx = jpegCanvas.getContext('2d');
+    if (!ctx) throw new Error("Empty Canvas");
+    const image = ctx.createImageData(tileSize, tileSize);
+    for (let i = 0, j = 0; i < rgb.length; i += 3, j += 4) {
+      image.data[j] = rgb[i];
+      image.data[j + 1] = rgb[i + 1];
+      image.data[j + 2] = rgb[i + 2];
+      image.data[j + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => jpegCanvas!.toBlob(resolve, 'image/jpeg', options.quality ?? 0.85));
+    if (!blob) throw new Error("JPEG encoding failed");
+    jpegSubsampling = readJpegSubsampling(new Uint8Array(await blob.slice(0, 1024).arrayBuffer()));
+    return blob;
+  };
+
+  return {
+    addTile: async (col, row, rgba) => {
+      if (rgba.length !== tileSize * tileSize * 4) throw new Error(`Tuile ${col},${row}: taille invalide`);
+      const data = convertTile(rgba, alpha, noData);
+      let tile: Blob;
+      if (compression === 'jpeg') {
+        tile = await encodeJpegTile(data);
+      } else if (compression === 'none') {
+        tile = new Blob([data]);
+      } else {
+        applyHorizontalPredictor(data, tileSize, samples);
+        tile = compression === 'lzw' ? new Blob([lzwEncode(data)]) : await deflateEncode(data);
+      }
+      tiles[row * tilesAcross + col] = tile;
+    },
+    finish: () => {
+      const dataBytes = tiles.reduce((sum, t) => sum + (t ? t.size : 0), 0);
+      const bigTiff = dataBytes > CLASSIC_TIFF_LIMIT;
+      const headerSize = bigTiff ? 16 : 8;
+
+      const tileOffsets: number[] = [];
+      const tileByteCounts: number[] = [];
+      let offset = headerSize;
+      tiles.forEach(t => {
+        tileOffsets.push(t ? offset : 0);
+        tileByteCounts.push(t ? t.size : 0);
+        offset += t ? t.size : 0;
+      });
+      const ifdOffset = offset + (offset % 2);
+
+      const tags: TiffTag[] = [
+        { tag: 256, type: TYPE_LONG, values: [width] },
+        { tag: 257, type: TYPE_LONG, values: [height] },
+        { tag: 258, type: TYPE_SHORT, values: new Array(samples).fill(8) },
+        { tag: 259, type: TYPE_SHORT, values: [COMPRESSION_CODES[compression]] },
+        { tag: 262, type: TYPE_SHORT, values: [compression === 'jpeg' ? 6 : 2] }, // YCbCr / RGB
+        { tag: 277, type: TYPE_SHORT, values: [samples] },
+        { tag: 284, type: TYPE_SHORT, values: [1] },              // Chunky
+        { tag: 305, type: TYPE_ASCII, values: 'topoma' },
+        { tag: 322, type: TYPE_LONG, values: [tileSize] },
+        { tag: 323, type: TYPE_LONG, values: [tileSize] },
+        { tag: 324, type: bigTiff ? TYPE_LONG8 : TYPE_LONG, values: tileOffsets },
+        { tag: 325, type: TYPE_LONG, values: tileByteCounts },
+        ...buildGeoTags(geo),
+      ];
+      if (compression === 'lzw' || compression === 'deflate') tags.push({ tag: 317, type: TYPE_SHORT, values: [2] }); // Horizontal predictor
+      if (compression === 'jpeg') {
+        tags.push({ tag: 530, type: TYPE_SHORT, values: jpegSubsampling });
+        tags.push({ tag: 532, type: TYPE_RATIONAL, values: [0, 1, 255, 1, 128, 1, 255, 1, 128, 1, 255, 1] }); // ReferenceBlackWhite
+      }
+      if (alpha) tags.push({ tag: 338, type: TYPE_SHORT, values: [2] });  // Unassociated alpha
+      if (!alpha && noData !== undefined) tags.push({ tag: TAG_GDAL_NODATA, type: TYPE_ASCII, values: String(noData) });
+      tags.sort((a, b) => a.tag - b.tag);
+
+      const header = new ArrayBuffer(headerSize);
+      const view = new DataView(header);
+      view.setUint16(0, 0x4949, true); // "II"
+      if (bigTiff) {
+        view.setUint16(2, 43, true);
+        view.setUint16(4, 8, true);
+        view.setUint16(6, 0, true);
+        view.setBigUint64(8, BigInt(ifdOffset), true);
+      } else {
+        view.setUint16(2, 42, true);
+        view.setUint32(4, ifdOffset, true);
+      }
+
+      const parts: BlobPart[] = [header, ...tiles.filter((t): t is Blob => t !== null)];
+      if (ifdOffset !== offset) parts.push(new Uint8Array(1));
+      parts.push(writeIFD(tags, ifdOffset, bigTiff));
+      return new Blob(parts, { type: 'image/tiff' });
+    }
+  };
+};
+
+/**
+ * Encode a whole RGBA image (as returned by getImageData) into a self-contained GeoTIFF.
+ */
+export const encodeGeoTIFF = async (rgba: Uint8Array | Uint8ClampedArray, width: number, height: number, geo: GeoReference, options: GeoTiffOptions = {}): Promise<Blob> => {
+  const tileSize = options.tileSize || 512;
+  const writer = createGeoTiffWriter(width, height, geo, { ...options, tileSize });
+  const tile = new Uint8Array(tileSize * tileSize * 4);
+  for (let row = 0; row * tileSize < height; row++) {
+    for (let col = 0; col * tileSize < width; col++) {
+      tile.fill(0);
+      const w = Math.min(tileSize, width - col * tileSize);
+      const h = Math.min(tileSize, height - row * tileSize);
+      for (let y = 0; y < h; y++) {
+        const start = ((row * tileSize + y) * width + col * tileSize) * 4;
+        tile.set(rgba.subarray(start, start + w * 4), y * tileSize * 4);
+      }
+      await writer.addTile(col, row, tile);
+    }
+  }
+  return writer.finish();
+};
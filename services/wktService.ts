@@ -0,0 +1,76 @@
+import WKT from 'ol/format/WKT';
+import Geometry from 'ol/geom/Geometry';
+import { LAMBERT_ZONES } from './geoService';
+
+/**
+ * تبادل الأشكال بصيغة WKT / EWKT (PostGIS)
+ * Several geometries can be pasted at once (one per line); an EWKT SRID prefix overrides the chosen zone.
+ */
+
+const GEOMETRY_START = /(?:SRID=\d+\s*;\s*)?(?:(?:MULTI)?(?:POINT|LINESTRING|POLYGON)|GEOMETRYCOLLECTION)/gi;
+
+export interface ParsedWKT {
+  geometries: Geometry[]; // In EPSG:3857 (map coordinates)
+  issues: string[];       // SRID not supported (read in the chosen zone instead)
+}
+
+// Text split at each geometry keyword that is not nested in a previous geometry
+const splitGeometries = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0, start = -1;
+  const starts = new Set<number>();
+  for (const match of text.matchAll(GEOMETRY_START)) starts.add(match.index!);
+  for (let i = 0; i < text.length; i++) {
+    if (depth === 0 && starts.has(i)) {
+      if (start >= 0) parts.push(text.slice(start, i));
+      start = i;
+    }
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth = Math.max(0, depth - 1);
+  }
+  if (start >= 0) parts.push(text.slice(start));
+  return parts.map(p => p.trim().replace(/[;,]$/, '').trim()).filter(Boolean);
+};
+
+/**
+ * Read the pasted WKT / EWKT; throws with the offending text when a geometry cannot be read.
+ */
+export const readWKT = (text: string, zoneCode: string): ParsedWKT => {
+  const format = new WKT();
+  const issues: string[] = [];
+  const geometries: Geometry[] = [];
+  const parts = splitGeometries(text);
+  if (parts.length === 0) throw new Error('Aucune géométrie WKT reconnue.');
+  parts.forEach(part => {
+    const srid = part.match(/^SRID=(\d+)\s*;\s*/i);
+    let dataProjection = zoneCode;
+    if (srid) {
+      const code = `EPSG:${srid[1]}`;
+      if (code === 'EPSG:4326' || code === 'EPSG:3857' || LAMBERT_ZONES[code]) dataProjection = code;
+      else issues.push(`SRID=${srid[1]} non supporté → ${zoneCode}`);
+    }
+    const wkt = srid ? part.slice(srid[0].length) : part;
+    let geometry: Geometry;
+    try {
+      geometry = format.readGeometry(wkt, { dataProjection, featureProjection: 'EPSG:3857' });
+    } catch {
+      throw new Error(`WKT invalide : ${wkt.length > 60 ? `${wkt.slice(0, 60)}…` : wkt}`);
+    }
+    if (!geometry) throw new Error(`WKT invalide : ${wkt}`);
+    geometries.push(geometry);
+  });
+  return { geometries, issues };
+};
+
+/**
+ * WKT of map geometries (EPSG:3857) in a zone: degrees to 8 decimals, metres to the millimetre.
+ * With ewkt, each line is prefixed with SRID=<epsg>;
+ */
+export const writeWKT = (geometries: Geometry[], zoneCode: string, ewkt = false): string => {
+  const format = new WKT();
+  const decimals = zoneCode === 'EPSG:4326' ? 8 : 3;
+  const prefix = ewkt ? `SRID=${zoneCode.split(':')[1]};` : '';
+  return geometries
+    .map(g => prefix + format.writeGeometry(g, { dataProjection: zoneCode, featureProjection: 'EPSG:3857', decimals }))
+    .join('\n');
+};